@@ -1,16 +1,16 @@
-import dns from 'dns/promises';
-
 import Debug from 'debug';
 
-import { z } from 'zod';
-// @ts-expect-error Client is not typed
-import { Client, Connection } from '@2colors/esphome-native-api';
-
-import Homey from 'homey';
-
-const debug = Debug('epl');
-
-const CONNECT_TIMEOUT = 15000;
+import { EverythingSmartDevice } from './../../lib/device';
+import { EntityState, ParsedEntityData } from './../../lib/entities';
+import { EntityMappingTable } from './../../lib/mapping';
+import { parseTargetObjectId, TargetProperty, TargetTracker } from './../../lib/targets';
+import {
+  getZoneGeometry,
+  isZoneEnabled,
+  parseZoneCoordinateObjectId,
+  validateZoneGeometry,
+  ZONE_COORDINATE_OBJECT_ID_REGEX
+} from './../../lib/zones';
 
 // epl:entity Register entity: occupancy: {
 //   config: {
@@ -149,484 +149,330 @@ const CONNECT_TIMEOUT = 15000;
 //   state: { key: 1263039176, state: true, missingState: false }
 // } +1ms
 
-enum DRIVER_SETTINGS {
-  ESP_32_LED = 'esp32_led',
-  MMWAVE_DISTANCE = 'max_distance' // Why is this id max_distance and not distance?
-}
+/**
+ * Maps the EPL entities to capabilities and settings. Zone occupancy and target entities are not
+ * part of this table as they are handled separately.
+ */
+const ENTITY_MAPPING: EntityMappingTable = {
+  capabilities: [
+    {
+      capabilityId: 'measure_luminance',
+      valueType: 'number',
+      match: { deviceClass: 'illuminance' }
+    },
+    {
+      capabilityId: 'alarm_motion',
+      valueType: 'boolean',
+      match: { deviceClass: 'occupancy', uniqueIdIncludes: ['binary_sensoroccupancy'] }
+    }
+  ],
+  settings: [
+    { objectId: 'esp32_led', valueType: 'boolean' },
+    { objectId: 'max_distance', valueType: 'number' }, // Why is this id max_distance and not distance?
+    { objectId: ZONE_COORDINATE_OBJECT_ID_REGEX, valueType: 'number' }
+  ]
+};
 
-const entityStateSchema = z.object({
-  key: z.number(),
-  state: z.union([z.number(), z.boolean()]),
-  missingState: z.boolean().optional()
-});
-
-// Example entity state
-// {
-//   config: {
-//     objectId: 'illuminance',
-//     key: 1797020032,
-//     name: 'Illuminance',
-//     uniqueId: 'everything-presence-lite-22354csensorilluminance',
-//     icon: '',
-//     unitOfMeasurement: 'lx',
-//     accuracyDecimals: 1,
-//     forceUpdate: false,
-//     deviceClass: 'illuminance',
-//     stateClass: 1,
-//     lastResetType: 0,
-//     disabledByDefault: false,
-//     entityCategory: 0
-//   },
-//   name: 'Illuminance',
-//   type: 'Sensor',
-//   unit: 'lx',
-//   state: { key: 1797020032, state: 10.979330062866211, missingState: false }
-// }
-
-const entitySchema = z.object({
-  config: z.object({
-    objectId: z.string(),
-    key: z.number(),
-    name: z.string(),
-    uniqueId: z.string(),
-    icon: z.string(),
-    unitOfMeasurement: z.string().optional(),
-    accuracyDecimals: z.number().optional(),
-    forceUpdate: z.boolean().optional(),
-    deviceClass: z.string().optional(),
-    stateClass: z.number().optional(),
-    lastResetType: z.number().optional(),
-    disabledByDefault: z.boolean(),
-    entityCategory: z.number()
-  }),
-  id: z.number(),
-  name: z.string(),
-  type: z.string(),
-  unit: z.string().optional()
-});
-
-type ParsedEntityData = z.infer<typeof entitySchema>;
-
-interface DiscoveryResult {
-  id: string;
-  lastSeen: Date;
-  address?: string;
-  port?: number;
-  host?: string;
-  txt?: {
-    version?: string;
-    project_version?: string;
-  };
-}
+const ZONE_OCCUPANCY_OBJECT_ID_REGEX = /^zone_(\d+)_occupancy$/;
 
 /**
- * On Homey Pro (Early 2023) the host property in the discovery result ends with .local, on Homey
- * Pro (Early 2019) it doesn't.
+ * Get the zone number of a zone occupancy entity (e.g. zone_1_occupancy), returns undefined if the
+ * entity is not a zone occupancy entity.
  *
- * @param host
+ * @param entity
  * @returns
  */
-function formatHostname(host: string) {
-  if (host.endsWith('.local')) return host;
-  return `${host}.local`;
+function getZoneNumber(entity: ParsedEntityData) {
+  const match = entity.config.objectId.match(ZONE_OCCUPANCY_OBJECT_ID_REGEX);
+  if (!match) return undefined;
+  return Number(match[1]);
 }
 
 /**
- * Get typed error message from unknown parameter.
+ * Check if an entity is one of the high frequency speed or distance sensors of the radar.
  *
- * @param error
+ * @param entity
  * @returns
  */
-function getErrorMessage(error: unknown) {
-  if (error instanceof Error) return error.message;
-  return String(error);
+function isRadarSensor(entity: ParsedEntityData) {
+  return (
+    entity.type === 'Sensor' &&
+    (entity.config.deviceClass === 'speed' || entity.config.deviceClass === 'distance')
+  );
 }
 
 /**
- * Check if entity has uniqueId that matches the binary sensor occupancy. Note: it appears that
- * between 2023.4.2 (1.1.3) and 2023.7.1 (1.1.6) of the EP1 firmware a breaking change was
- * introduced, the uniqueId binary_sensor_occupancy was changed to binary_sensoroccupancy. GitHub
- * issue: https://github.com/EverythingSmartHome/everything-presence-one/issues/99
+ * Get the capability id of the zone occupancy capability for a zone number.
  *
- * @param entity
+ * @param zone
  * @returns
  */
-function includesBinarySensorOccupancy(entity: ParsedEntityData) {
-  return entity.config.uniqueId.includes('binary_sensoroccupancy');
+function getZoneCapabilityId(zone: number) {
+  return `alarm_motion.zone_${zone}`;
 }
 
-class EverythingPresenceLiteDevice extends Homey.Device {
-  private debugEntity = debug.extend('entity');
-  private debugClient = debug.extend('client');
-  private debugDiscovery = debug.extend('discovery');
-  private client?: Client;
-  private connectPromise?: Promise<void>;
-  private entities: Map<string, { data: ParsedEntityData; original: unknown }> = new Map();
+class EverythingPresenceLiteDevice extends EverythingSmartDevice {
+  protected readonly debug = Debug('epl');
+  protected readonly entityMapping = ENTITY_MAPPING;
+  protected readonly ledSettings = { status: 'esp32_led' };
+  protected readonly clearSession = true;
+  private targetTracker = new TargetTracker();
+  /** Zones for which the firmware reports an occupancy entity. */
+  private zoneOccupancyEntities: Set<number> = new Set();
+  /** Latest zone coordinates reported by the firmware, by objectId. */
+  private zoneCoordinates: { [objectId: string]: number } = {};
 
   /** OnInit is called when the device is initialized. */
   async onInit() {
-    this.log('EverythingPresenceLiteDevice has been initialized');
-    this.connect().catch((err) => {
-      this.error('EverythingPresenceLiteDevice failed to connect', err);
-    });
+    // Migrate devices that were paired before people_count was added
+    if (!this.hasCapability('people_count')) {
+      await this.addCapability('people_count').catch((err) =>
+        this.error('Failed to add people_count capability', err)
+      );
+    }
+
+    await super.onInit();
   }
 
   /**
-   * Create Client instance and connect to device.
+   * Only expose zones that are reported by the firmware, whether a zone is enabled follows from its
+   * coordinates.
    *
-   * @returns
+   * @param entity
    */
-  async connect(): Promise<Client> {
-    // Make sure current connection is disconnected
-    await this.disconnect();
-
-    const addressProps = {
-      host: formatHostname(this.getStoreValue('host')),
-      port: this.getStoreValue('port')
-    };
-    this.debugClient('connecting:', addressProps);
-    this.client = new Client({
-      ...addressProps,
-      clearSession: true,
-      initializeDeviceInfo: false,
-      initializeListEntities: false,
-      initializeSubscribeStates: true,
-      initializeSubscribeLogs: false,
-      initializeSubscribeBLEAdvertisements: false,
-      clientInfo: 'homey',
-      encryptionKey: '',
-      password: '', // Deprecated
-      reconnect: true,
-      reconnectInterval: 30000,
-      pingInterval: 15000,
-      pingAttempts: 3
-    });
-
-    // Listen for entities
-    this.client.on('newEntity', (entity: unknown) => this.registerEntity(entity));
-
-    // Listen for client errors
-    this.client.on('error', (error: unknown) => {
-      this.debugClient('error:', error);
-      if (getErrorMessage(error).includes('Bad format: Encryption expected')) {
-        this.setUnavailable(this.homey.__('error.unavailable_encrypted')).catch((err) =>
-          this.log('Could not set unavailable', err)
-        );
-        return;
-      }
-      this.connect().catch((connectError) => {
-        this.log('Could not re-connect after error', connectError);
-        this.setUnavailable(this.homey.__('error.unavailable')).catch((err) =>
-          this.log('Could not set unavailable', err)
-        );
-      });
-    });
-
-    this.connectPromise = new Promise((resolve, reject) => {
-      const connectTimeout = this.homey.setTimeout(
-        () => reject(new Error(this.homey.__('error.connect_timeout'))),
-        CONNECT_TIMEOUT
-      );
-      this.client.connect();
-      this.client.on('initialized', () => {
-        this.debugClient('connected', addressProps);
-        this.homey.clearTimeout(connectTimeout);
-
-        // Fetch all entities
-        this.client.connection.listEntitiesService().catch((err: unknown) => {
-          this.error('Failed to list entities service:', err);
-        });
-
-        // Resolve hostname to ip address
-        dns
-          .lookup(addressProps.host)
-          .then((result) => {
-            this.debugClient('resolved hostname to:', result);
-            return this.setSettings({ ip: result.address });
-          })
-          .catch((err) => this.debugClient('failed to update ip address in settings', err));
-
-        // Mark device as available in case it was unavailable
-        this.setAvailable().catch((err) => this.log('Could not set available', err));
-
-        return resolve(this.client);
-      });
-    });
-
-    return this.connectPromise;
-  }
-
-  async disconnect() {
-    this.debugClient('disconnect');
-
-    // Try to disconnect client, note: this might fail in some cases so catch it
-    try {
-      this.client?.disconnect();
-    } catch (err) {
-      this.error('Failed to disconnect client', getErrorMessage(err));
+  protected onEntityRegistered(entity: ParsedEntityData) {
+    const zone = getZoneNumber(entity);
+    if (typeof zone === 'number') {
+      this.zoneOccupancyEntities.add(zone);
+      this.updateZoneCapability(zone);
     }
+  }
 
-    this.client?.removeAllListeners();
-    this.entities.forEach((entity) => {
-      // Validate entity.original.removeAllListeners
-      if (
-        typeof entity.original !== 'object' ||
-        entity.original === null ||
-        !('removeAllListeners' in entity.original) ||
-        typeof entity.original.removeAllListeners !== 'function'
-      ) {
-        throw new Error('Expected entity.removeAllListeners to be a function');
-      }
-      entity.original.removeAllListeners();
-    });
-
-    await this.connectPromise?.catch(() => undefined);
+  /**
+   * The target, radar and zone occupancy entities are handled by onCustomEntityState.
+   *
+   * @param entity
+   * @returns
+   */
+  protected isCustomEntity(entity: ParsedEntityData): boolean {
+    return (
+      Boolean(parseTargetObjectId(entity.config.objectId)) ||
+      isRadarSensor(entity) ||
+      typeof getZoneNumber(entity) === 'number'
+    );
   }
 
   /**
-   * Register an entity, bind state listener and subscribe to state events.
+   * Handle the target and zone occupancy entities, which are not part of the mapping table.
    *
    * @param entity
+   * @param state
+   * @returns
    */
-  registerEntity(entity: unknown) {
-    // Parse entity data
-    const parseEntityResult = entitySchema.safeParse(entity);
-    if (!parseEntityResult.success) {
-      this.debugEntity('Invalid entity object received, error:', parseEntityResult.error, entity);
-      return;
+  protected onCustomEntityState(entity: ParsedEntityData, state: EntityState): boolean {
+    // Target entities update at a high rate, handle them before logging the state event
+    const targetEntity = parseTargetObjectId(entity.config.objectId);
+    if (targetEntity) {
+      this.onTargetState(targetEntity.target, targetEntity.property, state?.state);
+      return true;
     }
 
-    // Cache entity
-    this.entities.set(parseEntityResult.data.config.objectId, {
-      data: parseEntityResult.data,
-      original: entity
-    });
-    this.debugEntity(
-      `Register entity: ${parseEntityResult.data.config.objectId}:`,
-      parseEntityResult.data
-    );
+    // Skip logging high frequency radar sensors
+    if (isRadarSensor(entity)) return true;
 
-    // Validate entity.connection
-    if (
-      typeof entity !== 'object' ||
-      entity === null ||
-      !('connection' in entity) ||
-      !(entity.connection instanceof Connection)
-    ) {
-      throw new Error('Expected entity.connection to be instanceof Connection');
+    // Zone coordinates are mapped to settings, but also determine if the zone is enabled
+    const coordinate = parseZoneCoordinateObjectId(entity.config.objectId);
+    if (coordinate && typeof state?.state === 'number') {
+      this.zoneCoordinates[entity.config.objectId] = state.state;
+      this.updateZoneCapability(coordinate.zone);
     }
 
-    // @ts-expect-error subscribeStatesService exists but is not typed
-    entity.connection.subscribeStatesService();
-
-    // Validate entity.on
-    if (
-      typeof entity !== 'object' ||
-      entity === null ||
-      !('on' in entity) ||
-      typeof entity.on !== 'function'
-    ) {
-      throw new Error('Expected entity.on to be a function');
+    // Zone occupancy entities have no device class
+    const zone = getZoneNumber(entity);
+    if (typeof zone === 'number') {
+      if (typeof state?.state === 'boolean') {
+        this.onZoneOccupancyState(zone, state.state).catch((err) =>
+          this.debugEntity(`Failed to handle zone ${zone} occupancy state`, err)
+        );
+      }
+      return true;
     }
 
-    // Subscribe to entity events
-    entity.on(`state`, (state: unknown) => {
-      try {
-        this.onEntityState(parseEntityResult.data.config.objectId, state);
-      } catch (err) {
-        this.debugEntity('Failed to handle entity state event', err);
-      }
-    });
+    return false;
   }
 
   /**
-   * Called when a state event is received for a specific entity.
+   * Called when a state event is received for a target entity. Updates the target tracker, the
+   * people_count capability and triggers the target Flow cards. The people_count capability is
+   * updated on every active state, the firmware reports the state of all targets on (re)connect and
+   * the stored value might be outdated even if the tracked target did not change.
    *
-   * @param entity
-   * @param state
+   * @param target
+   * @param property
+   * @param value
    */
-  onEntityState(entityId: string, state: unknown) {
-    // Skip parsing which may cause CPU spikes
-    const parsedState = state as z.infer<typeof entityStateSchema>;
-
-    // Get entity
-    const entity = this.entities.get(entityId)?.data;
-    if (!entity) throw new Error(`Missing entity ${entityId}`);
-    if (entity.config.deviceClass === 'speed' || entity.config.deviceClass === 'distance') {
+  onTargetState(target: number, property: TargetProperty, value: unknown) {
+    if (property !== 'active') {
+      if (typeof value === 'number') this.targetTracker.setValue(target, property, value);
       return;
     }
-    this.debugEntity(`state`, {
-      config: entity.config,
-      name: entity.name,
-      type: entity.type,
-      unit:
-        entity.config.unitOfMeasurement !== undefined ? entity.config.unitOfMeasurement || '' : '',
-      state: parsedState
-    });
-
-    switch (entity.config.deviceClass) {
-      case 'illuminance':
-        if (typeof parsedState?.state === 'number') {
-          this.debugEntity(`Capability: measure_luminance: state event`, parsedState?.state);
-          this.setCapabilityValue('measure_luminance', parsedState?.state).catch((err) =>
-            this.debugEntity('Failed to set measure_luminance capability value', err)
-          );
-        }
-        break;
-      case 'occupancy':
-        if (typeof parsedState?.state === 'boolean') {
-          if (includesBinarySensorOccupancy(entity)) {
-            this.debugEntity(`Capability: alarm_motion: state event`, parsedState?.state);
-            this.setCapabilityValue('alarm_motion', parsedState?.state).catch((err) =>
-              this.debugEntity('Failed to set alarm_motion capability value', err)
-            );
-          }
-        }
-        break;
-      default:
-        this.debugEntity('Unknown device class:', entity.config.deviceClass);
-    }
 
-    // Read and update settings
-    switch (entity.config.objectId) {
-      case DRIVER_SETTINGS.MMWAVE_DISTANCE:
-        if (typeof parsedState?.state === 'number') {
-          this.debugEntity(`Setting: ${entity.config.objectId}: state event`, parsedState?.state);
-          this.setSettings({
-            [entity.config.objectId]: parsedState?.state
-          }).catch((err) =>
-            this.debugEntity(
-              `Failed to set setting ${entity.config.objectId} to value: ${parsedState?.state}, reason:`,
-              err
-            )
-          );
-        }
-        break;
-      case DRIVER_SETTINGS.ESP_32_LED:
-        if (typeof parsedState?.state === 'boolean') {
-          this.debugEntity(`Setting: ${entity.config.objectId}: state event`, parsedState?.state);
-          this.setSettings({
-            [entity.config.objectId]: parsedState?.state
-          }).catch((err) =>
-            this.debugEntity(
-              `Failed to set setting ${entity.config.objectId} to value: ${parsedState?.state}, reason:`,
-              err
-            )
-          );
-        }
-        break;
-      default:
-        this.debugEntity('Unknown setting:', entity.config.objectId);
+    if (typeof value !== 'boolean') return;
+    if (this.targetTracker.setActive(target, value)) {
+      this.debugEntity(`Target ${target}: active state event`, value);
+
+      const { x, y, distance, speed } = this.targetTracker.getTarget(target);
+      const triggerPromise = value
+        ? this.homey.flow
+            .getDeviceTriggerCard('target_entered')
+            .trigger(this, { target, x, y, distance, speed })
+        : this.homey.flow.getDeviceTriggerCard('target_left').trigger(this, { target });
+      triggerPromise.catch((err) =>
+        this.debugEntity(`Failed to trigger target ${target} card`, err)
+      );
     }
+
+    this.setPeopleCount(this.targetTracker.getActiveCount()).catch((err) =>
+      this.debugEntity('Failed to set people_count capability value', err)
+    );
   }
 
-  /** OnAdded is called when the user adds the device, called just after pairing. */
-  async onAdded() {
-    this.log('EverythingPresenceLiteDevice has been added');
+  /**
+   * Update the people_count capability and trigger the people_count_changed Flow card when the
+   * number of people present changed.
+   *
+   * @param peopleCount
+   */
+  async setPeopleCount(peopleCount: number) {
+    if (this.getCapabilityValue('people_count') === peopleCount) return;
+    this.debugEntity(`Capability: people_count: state event`, peopleCount);
+    await this.setCapabilityValue('people_count', peopleCount);
+    await this.homey.flow
+      .getDeviceTriggerCard('people_count_changed')
+      .trigger(this, { people_count: peopleCount });
   }
 
   /**
-   * OnSettings is called when the user updates the device's settings.
+   * Add or remove the zone occupancy capability based on the current coordinates of the zone.
    *
-   * @param {object} event The onSettings event data
-   * @param {object} event.oldSettings The old settings object
-   * @param {object} event.newSettings The new settings object
-   * @param {string[]} event.changedKeys An array of keys changed since the previous version
-   * @returns {Promise<string | void>} Return a custom message that will be displayed
+   * @param zone
+   * @param settings Settings to read coordinates from that the firmware did not report yet
    */
-  async onSettings({
-    newSettings,
-    changedKeys
-  }: {
-    newSettings: { [key: string]: boolean | string | number | undefined | null };
-    changedKeys: string[];
-  }): Promise<string | void> {
-    this.log('EverythingPresenceLiteDevice settings were changed');
-    for (const changedKey of changedKeys) {
-      switch (changedKey) {
-        case DRIVER_SETTINGS.MMWAVE_DISTANCE:
-        case DRIVER_SETTINGS.ESP_32_LED:
-          const entity = this.entities.get(changedKey);
-          if (!entity) throw new Error(`Missing entity ${changedKey}`);
-          if (!entity.original) throw new Error(`Missing original entity ${changedKey}`);
-          const value = newSettings[changedKey];
-          if (typeof value === 'number' || typeof value === 'boolean') {
-            // Validate entity.original.setState
-            if (
-              typeof entity.original !== 'object' ||
-              entity.original === null ||
-              !('setState' in entity.original) ||
-              typeof entity.original.setState !== 'function'
-            ) {
-              throw new Error('Expected entity.setState to be a function');
-            }
-            entity.original.setState(value);
-          }
-          break;
-        default:
-          this.log('Unknown changed setting key:', changedKey);
-      }
-    }
+  updateZoneCapability(zone: number, settings: { [key: string]: unknown } = this.getSettings()) {
+    const geometry = getZoneGeometry(zone, { ...settings, ...this.zoneCoordinates });
+    const enabled = this.zoneOccupancyEntities.has(zone) && isZoneEnabled(geometry);
+    this.syncZoneCapability(zone, enabled).catch((err) =>
+      this.debugEntity(`Failed to sync zone ${zone} capability`, err)
+    );
   }
 
   /**
-   * OnRenamed is called when the user updates the device's name. This method can be used this to
-   * synchronize the name to the device.
+   * Add the zone occupancy capability if the zone is enabled, or remove it if the zone is disabled.
    *
-   * @param {string} name The new name
+   * @param zone
+   * @param enabled
    */
-  async onRenamed(name: string) {
-    this.log('EverythingPresenceLiteDevice was renamed to:', name);
+  async syncZoneCapability(zone: number, enabled: boolean) {
+    const capabilityId = getZoneCapabilityId(zone);
+    if (enabled && !this.hasCapability(capabilityId)) {
+      this.debugEntity(`Adding capability: ${capabilityId}`);
+      await this.addCapability(capabilityId);
+      this.resetEntityState(`zone_${zone}_occupancy`);
+    } else if (!enabled && this.hasCapability(capabilityId)) {
+      this.debugEntity(`Removing capability: ${capabilityId}`);
+      await this.removeCapability(capabilityId);
+    }
   }
 
-  /** OnDeleted is called when the user deleted the device. */
-  async onDeleted() {
-    this.log('EverythingPresenceLiteDevice has been deleted');
-    this.disconnect().catch(() => undefined);
+  /**
+   * Called when a state event is received for a zone occupancy entity. Updates the zone capability
+   * and triggers the zone Flow cards when the occupancy changed.
+   *
+   * @param zone
+   * @param occupied
+   */
+  async onZoneOccupancyState(zone: number, occupied: boolean) {
+    const capabilityId = getZoneCapabilityId(zone);
+    if (!this.hasCapability(capabilityId)) return;
+
+    const previousOccupied = this.getCapabilityValue(capabilityId);
+    this.debugEntity(`Capability: ${capabilityId}: state event`, occupied);
+    await this.setCapabilityValue(capabilityId, occupied);
+    if (previousOccupied === occupied) return;
+
+    await this.homey.flow
+      .getDeviceTriggerCard(occupied ? 'zone_occupied_true' : 'zone_occupied_false')
+      .trigger(this, {}, { zone: String(zone) });
   }
 
   /**
-   * Return a truthy value here if the discovery result matches your device.
+   * Check if a zone is occupied, used by the zone_occupied Flow condition.
    *
-   * @param discoveryResult
+   * @param zone
    * @returns
    */
-  onDiscoveryResult(discoveryResult: DiscoveryResult) {
-    this.debugDiscovery(`result match: ${discoveryResult.id === this.getData().id}`);
-    return discoveryResult.id === this.getData().id;
+  isZoneOccupied(zone: number): boolean {
+    const capabilityId = getZoneCapabilityId(zone);
+    if (!this.hasCapability(capabilityId)) {
+      throw new Error(this.homey.__('error.zone_not_enabled', { zone }));
+    }
+    return this.getCapabilityValue(capabilityId) === true;
   }
 
   /**
-   * This method will be executed once when the device has been found (onDiscoveryResult returned
-   * true).
+   * OnSettings is called when the user updates the device's settings.
    *
-   * @param discoveryResult
+   * @param {object} event The onSettings event data
+   * @param {object} event.oldSettings The old settings object
+   * @param {object} event.newSettings The new settings object
+   * @param {string[]} event.changedKeys An array of keys changed since the previous version
+   * @returns {Promise<string | void>} Return a custom message that will be displayed
    */
-  async onDiscoveryAvailable(discoveryResult: DiscoveryResult) {
-    this.debugDiscovery('available', discoveryResult);
-    const settings = this.getSettings();
-    if (typeof discoveryResult.address === 'string' && settings.ip !== discoveryResult.address) {
-      settings.ip = discoveryResult.address;
-    }
-    if (
-      typeof discoveryResult.txt?.version === 'string' &&
-      settings.esp_home_version !== discoveryResult.txt.version
-    ) {
-      settings.esp_home_version = discoveryResult.txt.version;
+  async onSettings(event: {
+    newSettings: { [key: string]: boolean | string | number | undefined | null };
+    changedKeys: string[];
+  }): Promise<string | void> {
+    // Validate zones before writing anything to the device
+    const changedZones = this.validateZoneSettings(event.newSettings, event.changedKeys);
+    const result = await super.onSettings(event);
+
+    // Expose or hide the zones using the coordinates that were just written to the device
+    for (const changedKey of event.changedKeys) {
+      const value = event.newSettings[changedKey];
+      if (parseZoneCoordinateObjectId(changedKey) && typeof value === 'number') {
+        this.zoneCoordinates[changedKey] = value;
+      }
     }
-    if (
-      typeof discoveryResult.txt?.project_version === 'string' &&
-      settings.project_version !== discoveryResult.txt.project_version
-    ) {
-      settings.project_version = discoveryResult.txt.project_version;
+    changedZones.forEach((zone) => this.updateZoneCapability(zone, event.newSettings));
+    return result;
+  }
+
+  /**
+   * Validate the geometry of all zones that have a changed coordinate, throws an error with a
+   * message for the user if a zone is invalid.
+   *
+   * @param newSettings
+   * @param changedKeys
+   * @returns The zones that have a changed coordinate
+   */
+  validateZoneSettings(newSettings: { [key: string]: unknown }, changedKeys: string[]) {
+    const changedZones = new Set<number>();
+    for (const changedKey of changedKeys) {
+      const coordinate = parseZoneCoordinateObjectId(changedKey);
+      if (coordinate) changedZones.add(coordinate.zone);
     }
 
-    // Update settings if needed
-    if (Object.keys(settings).length > 0) {
-      this.setSettings(settings).catch((err) => {
-        this.error('Failed to update IP in settings', err);
-      });
+    for (const zone of changedZones) {
+      const geometry = getZoneGeometry(zone, newSettings);
+      if (!geometry) throw new Error(this.homey.__('error.invalid_zone_missing', { zone }));
+      // Setting all coordinates to 0 disables the zone
+      if (!isZoneEnabled(geometry)) continue;
+      const [validationError] = validateZoneGeometry(geometry);
+      if (validationError) {
+        throw new Error(this.homey.__(`error.invalid_zone_${validationError}`, { zone }));
+      }
     }
+    return changedZones;
   }
 }
 
@@ -1,84 +1,45 @@
-import { z } from 'zod';
-
 import Homey from 'homey';
 
-import { formatMacString } from './../../lib/util';
-
-const discoveryResultSchema = z.object({
-  txt: z.object({
-    mac: z.string(),
-    version: z.string(),
-    project_version: z.string()
-  }),
-  host: z.string(),
-  address: z.string(),
-  port: z.number(),
-  name: z.string()
-});
+import { EverythingSmartDriver } from './../../lib/driver';
+import { Led } from './../../lib/device';
+import { ValidatedFirmware } from './../../lib/firmware';
 
-class EverythingPresenceLiteDriver extends Homey.Driver {
-  /** OnInit is called when the driver is initialized. */
-  async onInit() {
-    this.log('EverythingPresenceLiteDriver has been initialized');
-  }
+/** EPL firmware versions the entity mapping has been tested with, as listed in README.txt. */
+const VALIDATED_FIRMWARE: ValidatedFirmware = {
+  projectVersion: { min: '1.0.1', max: '1.0.1' },
+  esphomeVersion: { min: '2023.12.8', max: '2023.12.8' }
+};
 
-  /**
-   * OnPairListDevices is called when a user is adding a device and the 'list_devices' view is
-   * called. This should return an array with the data of devices that are available for pairing.
-   */
-  async onPairListDevices() {
-    const discoveryStrategy = this.getDiscoveryStrategy();
-    const discoveryResults = discoveryStrategy.getDiscoveryResults();
-    const devices = Object.values(discoveryResults).map((discoveryResult: unknown) => {
-      // Parse the discovery result with zod
-      const parseResult = discoveryResultSchema.safeParse(discoveryResult);
-      if (!parseResult.success) {
-        this.error('Got invalid discovery result, error:', parseResult.error);
-        return null;
-      }
+interface ZoneDevice extends Homey.Device {
+  isZoneOccupied(zone: number): boolean;
+}
 
-      return {
-        name: `Everything Presence Lite (${formatMacString(parseResult.data.txt.mac)})`,
-        data: {
-          id: parseResult.data.txt.mac
-        },
-        store: {
-          host: parseResult.data.host,
-          port: parseResult.data.port
-        },
-        settings: {
-          mac: formatMacString(parseResult.data.txt.mac),
-          ip: parseResult.data.address,
-          host: parseResult.data.host,
-          port: String(parseResult.data.port),
-          esp_home_version: parseResult.data.txt.version,
-          project_version: parseResult.data.txt.project_version
-        }
-      };
-    });
+class EverythingPresenceLiteDriver extends EverythingSmartDriver {
+  protected readonly productName = 'Everything Presence Lite';
+  protected readonly projectName = 'Everything Presence Lite';
+  protected readonly minimumProjectVersion = '1.0.0';
+  readonly flowCardPrefix = 'epl';
+  readonly validatedFirmware = VALIDATED_FIRMWARE;
+  protected readonly leds: Led[] = ['status'];
+  protected readonly settingActionCards = { set_max_distance: 'max_distance' };
 
-    // Filter out null entries (TS doesn't understand this)
-    return devices.filter((device) => Boolean(device));
+  /** OnInit is called when the driver is initialized. */
+  async onInit() {
+    await super.onInit();
+
+    // Only trigger zone cards for the zone selected by the user
+    const zoneRunListener = async (args: { zone: string }, state: { zone: string }) =>
+      args.zone === state.zone;
+    this.homey.flow.getDeviceTriggerCard('zone_occupied_true').registerRunListener(zoneRunListener);
+    this.homey.flow
+      .getDeviceTriggerCard('zone_occupied_false')
+      .registerRunListener(zoneRunListener);
+    this.homey.flow
+      .getConditionCard('zone_occupied')
+      .registerRunListener(async (args: { device: ZoneDevice; zone: string }) =>
+        args.device.isZoneOccupied(Number(args.zone))
+      );
   }
 }
 
-// Example discovery result:
-// id: 'd4d4da708528',
-// lastSeen: '2023-05-05T19:54:59.414Z',
-// address: '192.168.178.148',
-// host: 'everything-presence-one-708528',
-// port: 6053,
-// name: 'everything-presence-one-708528',
-// fullname: 'everything-presence-one-708528._esphomelib._tcp.local.',
-// txt: {
-//   version: '2023.4.2',
-//   mac: 'd4d4da708528',
-//   platform: 'ESP32',
-//   board: 'esp32dev',
-//   network: 'wifi',
-//   project_name: 'Everything_Smart_Technology.Everything_Presence_One',
-//   project_version: '1.1.3',
-//   package_import_url: 'github://everythingsmarthome/presence-one/everything-presence-one.yaml@main'
-// },
-
 module.exports = EverythingPresenceLiteDriver;
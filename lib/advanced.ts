@@ -0,0 +1,60 @@
+import { ParsedEntityData } from './entities';
+
+/** Setting that enables exposing the entities that are not mapped by the app as capabilities. */
+export const ADVANCED_ENTITIES_SETTING = 'advanced_entities';
+
+/** ESPHome entity category of diagnostic entities (e.g. uptime and Wi-Fi signal). */
+const ENTITY_CATEGORY_DIAGNOSTIC = 2;
+
+/** Generic capability for each supported ESPHome entity type. */
+const ADVANCED_CAPABILITIES: { [type: string]: string } = {
+  Sensor: 'entity_sensor',
+  BinarySensor: 'entity_binary_sensor',
+  Switch: 'entity_switch',
+  Button: 'entity_button'
+};
+
+/**
+ * Get the id of the generic sub-capability of an entity (e.g. entity_sensor.uptime), returns
+ * undefined if the entity type is not supported.
+ *
+ * @param entity
+ * @returns
+ */
+export function getAdvancedCapabilityId(entity: ParsedEntityData) {
+  const capabilityId = ADVANCED_CAPABILITIES[entity.type];
+  if (!capabilityId) return undefined;
+  return `${capabilityId}.${entity.config.objectId}`;
+}
+
+/**
+ * Check if a capability is a generic sub-capability of an entity.
+ *
+ * @param capabilityId
+ * @returns
+ */
+export function isAdvancedCapabilityId(capabilityId: string) {
+  return Object.values(ADVANCED_CAPABILITIES).some((id) => capabilityId.startsWith(`${id}.`));
+}
+
+/**
+ * Get the capability options of the generic sub-capability of an entity, based on the metadata the
+ * firmware provides for the entity.
+ *
+ * @param entity
+ * @returns
+ */
+export function getAdvancedCapabilityOptions(entity: ParsedEntityData) {
+  const options: { [key: string]: unknown } = {
+    title: { en: entity.config.name.trim() || entity.config.objectId },
+    // Diagnostic entities change often and are not interesting to keep history of
+    preventInsights: entity.config.entityCategory === ENTITY_CATEGORY_DIAGNOSTIC
+  };
+  if (entity.type === 'Sensor') {
+    if (entity.config.unitOfMeasurement) options.units = { en: entity.config.unitOfMeasurement };
+    if (typeof entity.config.accuracyDecimals === 'number') {
+      options.decimals = entity.config.accuracyDecimals;
+    }
+  }
+  return options;
+}
@@ -0,0 +1,1656 @@
+import dns from 'dns/promises';
+
+import Debug from 'debug';
+
+// @ts-expect-error Client is not typed
+import { Client, Connection } from '@2colors/esphome-native-api';
+
+import Homey from 'homey';
+
+import { getEncryptionErrorMessage, getErrorMessage, isValidEncryptionKey } from './util';
+import { deviceInfoSchema, entitySchema, EntityState, ParsedEntityData } from './entities';
+import {
+  EntityMappingTable,
+  findCapabilityMapping,
+  findSettingMapping,
+  isValueOfType
+} from './mapping';
+import {
+  FirmwareVersion,
+  isFirmwareOutdated,
+  isFirmwareValidated,
+  normalizeEntity,
+  ValidatedFirmware
+} from './firmware';
+import { OccupancyHistory, toMinutes } from './history';
+import { IlluminanceFilter, isDark } from './illuminance';
+import { StatePipeline } from './pipeline';
+import { DiagnosticsLog } from './diagnostics';
+import { EverythingSmartDriver } from './driver';
+import { findHealthCapability, HealthCapability, isUptimeReset, toUptimeHours } from './health';
+import {
+  FIRMWARE_LOG_LEVEL_SETTING,
+  FIRMWARE_LOGS_SETTING,
+  formatLogMessage,
+  getLogLevel,
+  getLogLevelName,
+  isWarningLogEntry,
+  logEntrySchema,
+  LogWarningThrottle
+} from './logs';
+import {
+  ADVANCED_ENTITIES_SETTING,
+  getAdvancedCapabilityId,
+  getAdvancedCapabilityOptions,
+  isAdvancedCapabilityId
+} from './advanced';
+import {
+  CONFIRMATION_PERIOD,
+  findMaintenanceButton,
+  MAINTENANCE_BUTTONS,
+  MaintenanceAction,
+  PLANNED_RESTART_PERIOD
+} from './maintenance';
+
+const CONNECT_TIMEOUT = 15000;
+const RECONNECT_BACKOFF_INITIAL = 5000;
+const RECONNECT_BACKOFF_FACTOR = 2;
+const RECONNECT_BACKOFF_MAX = 5 * 60 * 1000;
+const UNAVAILABLE_GRACE_PERIOD = 60 * 1000;
+const OCCUPANCY_UPDATE_INTERVAL = 60 * 1000;
+const HEALTH_UPDATE_INTERVAL = 60 * 1000;
+const OCCUPANCY_CAPABILITY = 'alarm_motion';
+const OCCUPANCY_HISTORY_STORE_KEY = 'occupancy_history';
+const ILLUMINANCE_CAPABILITY = 'measure_luminance';
+const FIRMWARE_OUTDATED_CAPABILITY = 'firmware_outdated';
+const CONNECTED_PROJECT_VERSION_STORE_KEY = 'connected_project_version';
+const UPTIME_STORE_KEY = 'uptime';
+const UPTIME_SENSOR_MISSING_STORE_KEY = 'uptime_sensor_missing';
+const UPTIME_CAPABILITY = 'uptime';
+const DIAGNOSTICS_CAPABILITY = 'button.diagnostics';
+
+const ENCRYPTION_KEY_SETTING = 'encryption_key';
+const STATIC_ADDRESS_SETTING = 'static_address';
+const STATIC_PORT_SETTING = 'static_port';
+const DIAGNOSTICS_REPORT_SETTING = 'diagnostics_report';
+
+/** LEDs that can be controlled by Flow cards, not every device has all LEDs. */
+export type Led = 'status' | 'mmwave';
+
+export enum ConnectionState {
+  DISCONNECTED = 'disconnected',
+  CONNECTING = 'connecting',
+  CONNECTED = 'connected',
+  BACKING_OFF = 'backing_off'
+}
+
+interface DiscoveryResult {
+  id: string;
+  lastSeen: Date;
+  address?: string;
+  port?: number;
+  host?: string;
+  txt?: {
+    version?: string;
+    project_version?: string;
+  };
+}
+
+// Example entity
+// {
+//   _events: [Object: null prototype] {
+//     error: [Function: bound propagateError] AsyncFunction
+//   },
+//   _eventsCount: 1,
+//   _maxListeners: undefined,
+//   handleState: [Function: bound handleState],
+//   handleMessage: [Function: bound handleMessage],
+//   config: {
+//     objectId: '_illuminance',
+//     key: 920262939,
+//     name: ' Illuminance',
+//     uniqueId: 'everything-presence-one-7083ccsensor_illuminance',
+//     icon: '',
+//     unitOfMeasurement: 'lx',
+//     accuracyDecimals: 1,
+//     forceUpdate: false,
+//     deviceClass: 'illuminance',
+//     stateClass: 1,
+//     lastResetType: 0,
+//     disabledByDefault: false,
+//     entityCategory: 0
+//   },
+//   type: 'Sensor',
+//   name: ' Illuminance',
+//   id: 920262939,
+//   connection: EsphomeNativeApiConnection {
+//     _events: [Object: null prototype] {
+//       'message.DisconnectRequest': [Function (anonymous)],
+//       'message.DisconnectResponse': [Function (anonymous)],
+//       'message.PingRequest': [Function (anonymous)],
+//       'message.GetTimeRequest': [Function (anonymous)],
+//       authorized: [AsyncFunction (anonymous)],
+//       unauthorized: [AsyncFunction (anonymous)],
+//       'message.DeviceInfoResponse': [AsyncFunction (anonymous)],
+//       'message.ListEntitiesBinarySensorResponse': [AsyncFunction (anonymous)],
+//       'message.ListEntitiesButtonResponse': [AsyncFunction (anonymous)],
+//       'message.ListEntitiesCameraResponse': [AsyncFunction (anonymous)],
+//       'message.ListEntitiesClimateResponse': [AsyncFunction (anonymous)],
+//       'message.ListEntitiesCoverResponse': [AsyncFunction (anonymous)],
+//       'message.ListEntitiesFanResponse': [AsyncFunction (anonymous)],
+//       'message.ListEntitiesLightResponse': [AsyncFunction (anonymous)],
+//       'message.ListEntitiesLockResponse': [AsyncFunction (anonymous)],
+//       'message.ListEntitiesMediaPlayerResponse': [AsyncFunction (anonymous)],
+//       'message.ListEntitiesNumberResponse': [AsyncFunction (anonymous)],
+//       'message.ListEntitiesSelectResponse': [AsyncFunction (anonymous)],
+//       'message.ListEntitiesSensorResponse': [AsyncFunction (anonymous)],
+//       'message.ListEntitiesSirenResponse': [AsyncFunction (anonymous)],
+//       'message.ListEntitiesSwitchResponse': [AsyncFunction (anonymous)],
+//       'message.ListEntitiesTextSensorResponse': [AsyncFunction (anonymous)],
+//       'message.SubscribeLogsResponse': [AsyncFunction (anonymous)],
+//       'message.BluetoothLEAdvertisementResponse': [AsyncFunction (anonymous)],
+//       error: [AsyncFunction (anonymous)],
+//       message: [Function: onMessage],
+//       'message.ListEntitiesDoneResponse': [Function],
+//       'message.BinarySensorStateResponse': [Array],
+//       'message.LightStateResponse': [Function: bound handleMessage],
+//       'message.SensorStateResponse': [Array]
+//     },
+//     _eventsCount: 30,
+//     _maxListeners: undefined,
+//     frameHelper: PlaintextFrameHelper {
+//       _events: [Object: null prototype],
+//       _eventsCount: 5,
+//       _maxListeners: undefined,
+//       host: 'everything-presence-one-7083cc.local',
+//       port: 6053,
+//       buffer: <Buffer >,
+//       socket: [Socket],
+//       [Symbol(kCapture)]: false
+//     },
+//     _connected: true,
+//     _authorized: true,
+//     port: 6053,
+//     host: 'everything-presence-one-7083cc.local',
+//     clientInfo: 'homey',
+//     password: '',
+//     encryptionKey: '',
+//     reconnect: true,
+//     reconnectTimer: null,
+//     reconnectInterval: 30000,
+//     pingTimer: Timeout {
+//       _idleTimeout: 15000,
+//       _idlePrev: [TimersList],
+//       _idleNext: [TimersList],
+//       _idleStart: 2919,
+//       _onTimeout: [AsyncFunction (anonymous)],
+//       _timerArgs: undefined,
+//       _repeat: 15000,
+//       _destroyed: false,
+//       [Symbol(refed)]: true,
+//       [Symbol(kHasPrimitive)]: false,
+//       [Symbol(asyncId)]: 47,
+//       [Symbol(triggerId)]: 0
+//     },
+//     pingInterval: 15000,
+//     pingAttempts: 3,
+//     pingCount: 0,
+//     [Symbol(kCapture)]: false
+//   },
+//   [Symbol(kCapture)]: false
+// }
+
+// const isEntity = (value: unknown): value is Entity => {
+//   return (
+//     typeof value === 'object' &&
+//     value !== null &&
+//     'name' in value &&
+//     typeof value.name === 'string' &&
+//     'type' in value &&
+//     typeof value.type === 'string' &&
+//     'config' in value &&
+//     typeof value.config === 'object' &&
+//     value.config !== null &&
+//     'objectId' in value.config &&
+//     typeof value.config.objectId === 'string' &&
+//     'deviceClass' in value.config &&
+//     typeof value.config.deviceClass === 'string' &&
+//     'uniqueId' in value.config &&
+//     typeof value.config.uniqueId === 'string'
+//   );
+// };
+
+/**
+ * On Homey Pro (Early 2023) the host property in the discovery result ends with .local, on Homey
+ * Pro (Early 2019) it doesn't.
+ *
+ * @param host
+ * @returns
+ */
+function formatHostname(host: string) {
+  if (host.endsWith('.local')) return host;
+  return `${host}.local`;
+}
+
+/**
+ * Base class for all Everything Smart devices, owns the ESPHome client lifecycle, the entity
+ * registry and discovery syncing. Devices provide their entity mapping table and can implement
+ * onCustomEntityState to handle entities that can not be expressed in the mapping table.
+ */
+export abstract class EverythingSmartDevice extends Homey.Device {
+  /** Debug instance of the device, e.g. Debug('epo'). */
+  protected abstract readonly debug: Debug.Debugger;
+  /** Maps the entities of the device to capabilities and settings. */
+  protected abstract readonly entityMapping: EntityMappingTable;
+  /** Maps the LEDs of the device to the ids of their (boolean) settings. */
+  protected readonly ledSettings: { [led in Led]?: string } = {};
+  /** Remove all entities of a previous session when (re)connecting. */
+  protected readonly clearSession: boolean = false;
+
+  protected debugEntity!: Debug.Debugger;
+  protected debugClient!: Debug.Debugger;
+  protected debugDiscovery!: Debug.Debugger;
+  protected client?: Client;
+  protected entities: Map<string, { data: ParsedEntityData; original: unknown }> = new Map();
+  protected connectionState: ConnectionState = ConnectionState.DISCONNECTED;
+  protected diagnostics = new DiagnosticsLog();
+  private connectPromise?: Promise<Client>;
+  /** Cancels the pending connection attempt, set while the client is connecting. */
+  private cancelConnect?: () => void;
+  private reconnectAttempt = 0;
+  private reconnectTimeout?: NodeJS.Timeout;
+  private unavailableTimeout?: NodeJS.Timeout;
+  private useHostnameFallback = false;
+  /** Translation key of the encryption error the last connection attempt failed with. */
+  private encryptionFailure?: string;
+  private occupancyHistory!: OccupancyHistory;
+  private occupancyInterval?: NodeJS.Timeout;
+  private advancedCapabilityListeners: Set<string> = new Set();
+  private illuminanceFilter = new IlluminanceFilter();
+  private statePipeline!: StatePipeline;
+  private plannedRestartUntil = 0;
+  private pendingConfirmation?: { action: MaintenanceAction; until: number };
+  private restartExpected = false;
+  private healthInterval?: NodeJS.Timeout;
+  private logWarningThrottle = new LogWarningThrottle();
+  /**
+   * Time the device info of the current connection was received, used when there is no uptime
+   * sensor.
+   */
+  private connectedSince?: number;
+
+  /** OnInit is called when the device is initialized. */
+  async onInit() {
+    this.debugEntity = this.debug.extend('entity');
+    this.debugClient = this.debug.extend('client');
+    this.debugDiscovery = this.debug.extend('discovery');
+    this.log(`${this.constructor.name} has been initialized`);
+    this.checkFirmwareCompatibility();
+
+    // Migrate devices that were paired before the occupancy duration, dark and firmware capabilities
+    // were added
+    for (const capabilityId of [
+      'occupied_for',
+      'vacant_for',
+      'room_dark',
+      FIRMWARE_OUTDATED_CAPABILITY
+    ]) {
+      if (!this.hasCapability(capabilityId)) {
+        await this.addCapability(capabilityId).catch((err) =>
+          this.error(`Failed to add ${capabilityId} capability`, err)
+        );
+      }
+    }
+
+    // Migrate devices that were paired before the maintenance actions were added
+    for (const { action, capabilityId } of MAINTENANCE_BUTTONS) {
+      if (!this.hasCapability(capabilityId)) {
+        await this.addCapability(capabilityId).catch((err) =>
+          this.error(`Failed to add ${capabilityId} capability`, err)
+        );
+      }
+      this.registerCapabilityListener(capabilityId, async () => this.onMaintenanceButton(action));
+    }
+    if (!this.hasCapability(DIAGNOSTICS_CAPABILITY)) {
+      await this.addCapability(DIAGNOSTICS_CAPABILITY).catch((err) =>
+        this.error(`Failed to add ${DIAGNOSTICS_CAPABILITY} capability`, err)
+      );
+    }
+    this.registerCapabilityListener(DIAGNOSTICS_CAPABILITY, async () =>
+      this.createDiagnosticsReport()
+    );
+
+    this.updateFirmwareStatus();
+    this.configureIlluminance(this.getSettings());
+
+    // Handle entity states through the update pipeline to limit the number of updates
+    this.statePipeline = new StatePipeline(this.homey, (objectId, state) => {
+      try {
+        this.onEntityState(objectId, state);
+      } catch (err) {
+        this.debugEntity('Failed to handle entity state event', err);
+      }
+    });
+    this.statePipeline.configure(Number(this.getSetting('state_update_window')) || 0);
+
+    // Restore the occupancy history and keep the occupancy durations up to date
+    this.occupancyHistory = new OccupancyHistory(this.getStoreValue(OCCUPANCY_HISTORY_STORE_KEY));
+    if (this.getCapabilityValue(OCCUPANCY_CAPABILITY) !== true) {
+      this.occupancyHistory.startVacancy(Date.now());
+      await this.setStoreValue(OCCUPANCY_HISTORY_STORE_KEY, this.occupancyHistory.toJSON());
+    }
+    this.updateOccupancyDurations();
+    this.occupancyInterval = this.homey.setInterval(
+      () => this.updateOccupancyDurations(),
+      OCCUPANCY_UPDATE_INTERVAL
+    );
+    this.healthInterval = this.homey.setInterval(
+      () => this.updateConnectionUptime(),
+      HEALTH_UPDATE_INTERVAL
+    );
+
+    this.connect().catch((err) => {
+      this.error(`${this.constructor.name} failed to connect`, err);
+    });
+  }
+
+  /**
+   * Create Client instance and connect to device. If a connection attempt is already in progress
+   * the pending attempt is returned instead of starting a new one.
+   *
+   * @returns
+   */
+  async connect(): Promise<Client> {
+    if (this.connectionState === ConnectionState.CONNECTING && this.connectPromise) {
+      return this.connectPromise;
+    }
+
+    // Make sure current connection is torn down
+    this.homey.clearTimeout(this.reconnectTimeout);
+    this.teardownClient();
+    this.setConnectionState(ConnectionState.CONNECTING);
+
+    const addressProps = this.getConnectAddress();
+    this.debugClient('connecting:', addressProps);
+    this.diagnostics.add('connection', `connecting to ${addressProps.host}:${addressProps.port}`);
+    const client = new Client({
+      ...addressProps,
+      clearSession: this.clearSession,
+      initializeDeviceInfo: true,
+      initializeListEntities: false,
+      initializeSubscribeStates: true,
+      initializeSubscribeLogs: this.getSetting(FIRMWARE_LOGS_SETTING) === true && {
+        level: getLogLevel(this.getSetting(FIRMWARE_LOG_LEVEL_SETTING)),
+        dumpConfig: false
+      },
+      initializeSubscribeBLEAdvertisements: false,
+      clientInfo: 'homey',
+      encryptionKey: this.getEncryptionKey(),
+      password: '', // Deprecated
+      reconnect: false, // Reconnecting is handled by onConnectionLost
+      pingInterval: 15000,
+      pingAttempts: 3
+    });
+    this.client = client;
+
+    // Listen for entities
+    client.on('newEntity', (entity: unknown) => this.registerEntity(entity));
+
+    // Listen for firmware logs, only received when the log subscription is enabled
+    client.on('logs', (entry: unknown) => this.onFirmwareLog(entry));
+
+    this.connectPromise = new Promise((resolve, reject) => {
+      const connectTimeout = this.homey.setTimeout(() => {
+        if (this.client !== client) return; // Ignore a client that was torn down on purpose
+        const error = new Error(this.homey.__('error.connect_timeout'));
+        this.onConnectionLost(error);
+        reject(error);
+      }, CONNECT_TIMEOUT);
+
+      // Tearing down the client settles the pending attempt instead of waiting for the timeout
+      this.cancelConnect = () => {
+        this.homey.clearTimeout(connectTimeout);
+        reject(new Error('Disconnected'));
+      };
+
+      // Listen for client errors, the connection is only considered lost if it was still being
+      // established, otherwise the disconnected event will follow if the socket was closed
+      client.on('error', (error: unknown) => {
+        this.debugClient('error:', error);
+        if (this.client !== client) return; // Ignore errors of a client that was torn down
+        this.diagnostics.add('connection', `error: ${getErrorMessage(error)}`);
+        // A planned restart closes the connection, this is expected and not an error
+        if (!this.isRestartPlanned()) {
+          this.updateConnectionStats({ last_error: getErrorMessage(error) });
+        }
+
+        const encryptionErrorMessage = getEncryptionErrorMessage(error);
+        if (encryptionErrorMessage) {
+          // The encryption error replaces the generic unavailable message of the grace period
+          this.encryptionFailure = encryptionErrorMessage;
+          this.homey.clearTimeout(this.unavailableTimeout);
+          this.unavailableTimeout = undefined;
+          this.setUnavailable(this.homey.__(encryptionErrorMessage)).catch((err) =>
+            this.log('Could not set unavailable', err)
+          );
+        }
+
+        if (this.connectionState === ConnectionState.CONNECTING) {
+          this.homey.clearTimeout(connectTimeout);
+          this.onConnectionLost(error);
+          reject(error);
+        }
+      });
+
+      client.on('disconnected', () => {
+        this.debugClient('disconnected', addressProps);
+        if (this.client !== client) return; // Ignore a client that was torn down on purpose
+        this.homey.clearTimeout(connectTimeout);
+        this.onConnectionLost(new Error('Disconnected'));
+        reject(new Error('Disconnected'));
+      });
+
+      client.on('initialized', () => {
+        this.debugClient('connected', addressProps);
+        this.statePipeline.reset();
+        this.homey.clearTimeout(connectTimeout);
+        this.homey.clearTimeout(this.unavailableTimeout);
+        this.unavailableTimeout = undefined;
+        this.encryptionFailure = undefined;
+        this.reconnectAttempt = 0;
+        if (this.isRestartPlanned()) {
+          this.log('Reconnected after planned restart');
+          // The uptime of the device resets, which should not be reported as an unexpected reboot
+          this.restartExpected = true;
+        }
+        this.plannedRestartUntil = 0;
+        this.setConnectionState(ConnectionState.CONNECTED);
+        this.updateConnectionStats({ last_connected: new Date().toISOString() });
+
+        this.onDeviceInfo(client.deviceInfo).catch((err) =>
+          this.error('Failed to handle device info', err)
+        );
+
+        // Fetch all entities, resolves when the firmware has listed all of them
+        client.connection
+          .listEntitiesService()
+          .then(() => this.onEntitiesListed())
+          .catch((err: unknown) => {
+            this.error('Failed to list entities service:', err);
+          });
+
+        // Resolve hostname to ip address
+        dns
+          .lookup(addressProps.host)
+          .then((result) => {
+            this.debugClient('resolved hostname to:', result);
+            return this.setSettings({ ip: result.address });
+          })
+          .catch((err) => this.debugClient('failed to update ip address in settings', err));
+
+        // Mark device as available in case it was unavailable
+        this.setAvailable().catch((err) => this.log('Could not set available', err));
+
+        return resolve(client);
+      });
+
+      client.connect();
+    });
+
+    return this.connectPromise;
+  }
+
+  /**
+   * Called when the connection to the device was lost or could not be established. Schedules a
+   * reconnect using exponential backoff and marks the device as unavailable if it does not
+   * reconnect within the grace period. After a planned restart the device is expected to go away
+   * for a moment, so it is reconnected without backoff and the reconnect is not counted.
+   *
+   * @param error
+   */
+  onConnectionLost(error: unknown) {
+    // Ignore if a reconnect is already scheduled or the device was disconnected on purpose
+    if (
+      this.connectionState === ConnectionState.BACKING_OFF ||
+      this.connectionState === ConnectionState.DISCONNECTED
+    ) {
+      return;
+    }
+
+    this.teardownClient();
+
+    // Alternate between the discovered ip address and the hostname, in case one of them is stale
+    if (this.getStoreValue('address')) this.useHostnameFallback = !this.useHostnameFallback;
+
+    const plannedRestart = this.isRestartPlanned();
+    const delay = plannedRestart
+      ? RECONNECT_BACKOFF_INITIAL
+      : Math.min(
+          RECONNECT_BACKOFF_INITIAL * RECONNECT_BACKOFF_FACTOR ** this.reconnectAttempt,
+          RECONNECT_BACKOFF_MAX
+        );
+    this.debugClient(`connection lost, reconnecting in ${delay}ms, reason:`, error);
+    this.diagnostics.add(
+      'connection',
+      `connection lost${
+        plannedRestart ? ' (planned restart)' : ''
+      }, reconnecting in ${delay}ms: ${getErrorMessage(error)}`
+    );
+    this.setConnectionState(ConnectionState.BACKING_OFF);
+    if (!plannedRestart) {
+      this.reconnectAttempt++;
+      this.updateConnectionStats({
+        reconnect_count: String(Number(this.getSetting('reconnect_count') || 0) + 1)
+      });
+    }
+
+    this.reconnectTimeout = this.homey.setTimeout(() => {
+      this.connect().catch((err) => this.debugClient('Could not re-connect', err));
+    }, delay);
+
+    // Only mark the device as unavailable if it does not reconnect within the grace period, unless
+    // it is already unavailable because of an encryption error
+    if (!this.unavailableTimeout && !this.encryptionFailure && this.getAvailable()) {
+      this.unavailableTimeout = this.homey.setTimeout(() => {
+        this.unavailableTimeout = undefined;
+        if (this.connectionState === ConnectionState.CONNECTED || this.encryptionFailure) return;
+        this.setUnavailable(this.homey.__('error.unavailable')).catch((err) =>
+          this.log('Could not set unavailable', err)
+        );
+      }, Math.max(UNAVAILABLE_GRACE_PERIOD, this.plannedRestartUntil - Date.now()));
+    }
+  }
+
+  /**
+   * Get the address to connect to. A static address from the settings takes precedence, otherwise
+   * the ip address found by discovery is used, with the mDNS hostname as fallback.
+   *
+   * @returns
+   */
+  getConnectAddress(): { host: string; port: number } {
+    const staticAddress = this.getSetting(STATIC_ADDRESS_SETTING);
+    if (typeof staticAddress === 'string' && staticAddress.trim() !== '') {
+      return { host: staticAddress.trim(), port: Number(this.getSetting(STATIC_PORT_SETTING)) };
+    }
+
+    const address = this.getStoreValue('address');
+    if (typeof address === 'string' && address !== '' && !this.useHostnameFallback) {
+      return { host: address, port: this.getStoreValue('port') };
+    }
+    return { host: formatHostname(this.getStoreValue('host')), port: this.getStoreValue('port') };
+  }
+
+  /**
+   * Get the encryption key (PSK) to use for the Noise encrypted transport, an empty string means
+   * the plaintext transport is used.
+   *
+   * @returns
+   */
+  getEncryptionKey(): string {
+    const encryptionKey = this.getStoreValue('encryption_key');
+    if (isValidEncryptionKey(encryptionKey)) return encryptionKey;
+    return '';
+  }
+
+  /**
+   * Get the firmware versions of the device, as reported by the current connection or otherwise as
+   * stored in the settings. The settings are only updated after the device info was handled, which
+   * can be after the first entities were registered.
+   *
+   * @returns
+   */
+  getFirmwareVersion(): FirmwareVersion {
+    const deviceInfoResult = deviceInfoSchema.safeParse(this.client?.deviceInfo);
+    if (deviceInfoResult.success) {
+      const { projectVersion, esphomeVersion } = deviceInfoResult.data;
+      return {
+        projectVersion: projectVersion || undefined,
+        esphomeVersion: esphomeVersion || undefined
+      };
+    }
+    return {
+      projectVersion: this.getSetting('project_version') || undefined,
+      esphomeVersion: this.getSetting('esp_home_version') || undefined
+    };
+  }
+
+  /**
+   * Get the firmware manifest of the driver, the versions the entity mapping has been validated
+   * against.
+   *
+   * @returns
+   */
+  getValidatedFirmware(): ValidatedFirmware {
+    return (this.driver as EverythingSmartDriver).validatedFirmware;
+  }
+
+  /** Show a warning on the device if its firmware has not been validated with this app. */
+  checkFirmwareCompatibility() {
+    const firmware = this.getFirmwareVersion();
+    if (isFirmwareValidated(firmware, this.getValidatedFirmware())) {
+      this.unsetWarning().catch((err) => this.error('Failed to unset warning', err));
+      return;
+    }
+
+    this.log('Firmware has not been validated with this app:', firmware);
+    this.setWarning(
+      this.homey.__('warning.firmware_not_validated', {
+        project_version: firmware.projectVersion || '-',
+        esphome_version: firmware.esphomeVersion || '-'
+      })
+    ).catch((err) => this.error('Failed to set warning', err));
+  }
+
+  /**
+   * Update the firmware outdated capability, triggers firmware_outdated when a newer firmware
+   * release becomes available. The latest release is read from the firmware manifest of the
+   * driver.
+   */
+  updateFirmwareStatus() {
+    const { projectVersion } = this.getFirmwareVersion();
+    const latestProjectVersion = this.getValidatedFirmware().projectVersion.max;
+
+    const outdated = isFirmwareOutdated({ projectVersion }, latestProjectVersion);
+    const previous = this.getCapabilityValue(FIRMWARE_OUTDATED_CAPABILITY);
+    if (outdated === previous) return;
+    this.setCapabilityValue(FIRMWARE_OUTDATED_CAPABILITY, outdated)
+      .then(async () => {
+        if (!outdated) return;
+        this.log(`Firmware ${projectVersion} is outdated, latest version: ${latestProjectVersion}`);
+        await this.homey.flow
+          .getDeviceTriggerCard(this.getFlowCardId('firmware_outdated'))
+          .trigger(this, { version: projectVersion, latest_version: latestProjectVersion });
+      })
+      .catch((err) => this.error('Failed to update firmware status', err));
+  }
+
+  /**
+   * Called with the device info the firmware reports when connecting, updates the firmware versions
+   * in the settings and triggers firmware_updated when the device reconnects with a different
+   * project version (e.g. after an OTA update).
+   *
+   * @param deviceInfo
+   */
+  async onDeviceInfo(deviceInfo: unknown) {
+    const deviceInfoResult = deviceInfoSchema.safeParse(deviceInfo);
+    if (!deviceInfoResult.success) {
+      this.debugClient('Invalid device info received, error:', deviceInfoResult.error);
+      return;
+    }
+
+    const { projectVersion, esphomeVersion } = deviceInfoResult.data;
+    this.connectedSince = Date.now();
+    this.updateConnectionUptime();
+    this.diagnostics.add(
+      'connection',
+      `device info: project version ${projectVersion}, ESPHome ${esphomeVersion}`
+    );
+    const previousProjectVersion = this.getStoreValue(CONNECTED_PROJECT_VERSION_STORE_KEY);
+    await this.setStoreValue(CONNECTED_PROJECT_VERSION_STORE_KEY, projectVersion);
+    await this.setSettings({ project_version: projectVersion, esp_home_version: esphomeVersion });
+    this.checkFirmwareCompatibility();
+    this.updateFirmwareStatus();
+
+    if (typeof previousProjectVersion === 'string' && previousProjectVersion !== projectVersion) {
+      this.log(`Firmware updated from ${previousProjectVersion} to ${projectVersion}`);
+      await this.homey.flow
+        .getDeviceTriggerCard(this.getFlowCardId('firmware_updated'))
+        .trigger(this, { previous_version: previousProjectVersion, version: projectVersion });
+    }
+  }
+
+  /**
+   * Called when a log line of the firmware is received, the line is recorded in the diagnostics and
+   * warnings and errors trigger firmware_log_warning, limited by the log warning throttle.
+   *
+   * @param entry
+   */
+  onFirmwareLog(entry: unknown) {
+    const logEntryResult = logEntrySchema.safeParse(entry);
+    if (!logEntryResult.success) {
+      this.debugClient('Invalid log entry received, error:', logEntryResult.error);
+      return;
+    }
+
+    const level = getLogLevelName(logEntryResult.data.level);
+    const message = formatLogMessage(logEntryResult.data.message);
+    this.diagnostics.add('log', `[${level}] ${message}`);
+    if (!isWarningLogEntry(logEntryResult.data)) return;
+    if (!this.logWarningThrottle.shouldTrigger(message)) {
+      this.debugClient('Throttled firmware_log_warning trigger:', message);
+      return;
+    }
+    this.homey.flow
+      .getDeviceTriggerCard(this.getFlowCardId('firmware_log_warning'))
+      .trigger(this, { level, message })
+      .catch((err) => this.error('Failed to trigger firmware_log_warning', err));
+  }
+
+  /**
+   * Get the id of a Flow card shared by all drivers for the driver of this device.
+   *
+   * @param cardId
+   * @returns
+   */
+  getFlowCardId(cardId: string) {
+    return (this.driver as EverythingSmartDriver).getFlowCardId(cardId);
+  }
+
+  /** Disconnect from the device and stop reconnecting. */
+  async disconnect() {
+    this.debugClient('disconnect');
+    this.homey.clearTimeout(this.reconnectTimeout);
+    this.homey.clearTimeout(this.unavailableTimeout);
+    this.unavailableTimeout = undefined;
+    this.teardownClient();
+    this.setConnectionState(ConnectionState.DISCONNECTED);
+    await this.connectPromise?.catch(() => undefined);
+  }
+
+  /** Disconnect the current client and remove all client and entity listeners. */
+  teardownClient() {
+    const { client } = this;
+    this.client = undefined;
+    this.cancelConnect?.();
+    this.cancelConnect = undefined;
+
+    // Try to disconnect client, note: this might fail in some cases so catch it
+    try {
+      client?.disconnect();
+    } catch (err) {
+      this.error('Failed to disconnect client', getErrorMessage(err));
+    }
+
+    client?.removeAllListeners();
+    this.entities.forEach((entity) => {
+      // Validate entity.original.removeAllListeners
+      if (
+        typeof entity.original !== 'object' ||
+        entity.original === null ||
+        !('removeAllListeners' in entity.original) ||
+        typeof entity.original.removeAllListeners !== 'function'
+      ) {
+        throw new Error('Expected entity.removeAllListeners to be a function');
+      }
+      entity.original.removeAllListeners();
+    });
+  }
+
+  /**
+   * Update the connection state and show it in the device settings.
+   *
+   * @param connectionState
+   */
+  setConnectionState(connectionState: ConnectionState) {
+    if (this.connectionState === connectionState) return;
+    this.debugClient(`state: ${this.connectionState} -> ${connectionState}`);
+    this.diagnostics.add('connection', `state: ${this.connectionState} -> ${connectionState}`);
+    this.connectionState = connectionState;
+    this.updateConnectionStats({ connection_state: connectionState });
+  }
+
+  /**
+   * Update the connection statistics shown in the device settings.
+   *
+   * @param stats
+   */
+  updateConnectionStats(stats: {
+    connection_state?: string;
+    last_connected?: string;
+    last_error?: string;
+    reconnect_count?: string;
+  }) {
+    this.setSettings(stats).catch((err) =>
+      this.debugClient('Failed to update connection statistics in settings', err)
+    );
+  }
+
+  /**
+   * Register an entity, bind state listener and subscribe to state events.
+   *
+   * @param entity
+   */
+  registerEntity(entity: unknown) {
+    // Parse entity data
+    const parseEntityResult = entitySchema.safeParse(entity);
+    if (!parseEntityResult.success) {
+      this.debugEntity('Invalid entity object received, error:', parseEntityResult.error, entity);
+      this.diagnostics.add(
+        'entity',
+        `invalid entity: ${parseEntityResult.error.issues
+          .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+          .join(', ')}`
+      );
+      return;
+    }
+
+    // Normalise identifiers that changed between firmware versions
+    const data = normalizeEntity(parseEntityResult.data, this.getFirmwareVersion());
+
+    // Cache entity
+    this.entities.set(data.config.objectId, { data, original: entity });
+    this.debugEntity(`Register entity: ${data.config.objectId}:`, data);
+    const known = this.isKnownEntity(data);
+    this.diagnostics.add(
+      'entity',
+      `${data.type} ${data.config.objectId} (${data.config.uniqueId})${known ? '' : ' unknown'}`
+    );
+    if (!known) {
+      this.log(
+        `Warning: unknown entity ${data.config.objectId} (${
+          data.config.uniqueId
+        }), it might have been renamed in firmware ${this.getSetting('project_version')}`
+      );
+      this.syncAdvancedEntity(data, this.getSetting(ADVANCED_ENTITIES_SETTING) === true).catch(
+        (err) => this.error(`Failed to sync advanced entity ${data.config.objectId}`, err)
+      );
+    }
+    this.onEntityRegistered?.(data);
+
+    // Add the Wi-Fi signal and uptime capabilities when the firmware has these sensors
+    const healthCapabilityId = findHealthCapability(data);
+    if (healthCapabilityId) {
+      this.addHealthCapability(healthCapabilityId, data).catch((err) =>
+        this.error(`Failed to add ${healthCapabilityId} capability`, err)
+      );
+    }
+
+    // Validate entity.connection
+    if (
+      typeof entity !== 'object' ||
+      entity === null ||
+      !('connection' in entity) ||
+      !(entity.connection instanceof Connection)
+    ) {
+      throw new Error('Expected entity.connection to be instanceof Connection');
+    }
+
+    // @ts-expect-error subscribeStatesService exists but is not typed
+    entity.connection.subscribeStatesService();
+
+    // Validate entity.on
+    if (
+      typeof entity !== 'object' ||
+      entity === null ||
+      !('on' in entity) ||
+      typeof entity.on !== 'function'
+    ) {
+      throw new Error('Expected entity.on to be a function');
+    }
+
+    // Subscribe to entity events, binary sensors (e.g. occupancy) skip the coalescing window. Skip
+    // parsing the state which may cause CPU spikes.
+    entity.on(`state`, (state: unknown) => {
+      this.statePipeline.push(
+        data.config.objectId,
+        state as EntityState,
+        data.type === 'BinarySensor'
+      );
+    });
+  }
+
+  /**
+   * Called when a state event is received for a specific entity.
+   *
+   * @param entity
+   * @param state
+   */
+  onEntityState(entityId: string, parsedState: EntityState) {
+    // Get entity
+    const entity = this.entities.get(entityId)?.data;
+    if (!entity) throw new Error(`Missing entity ${entityId}`);
+    this.diagnostics.add('state', `${entityId}: ${parsedState?.state}`);
+
+    // Let the device handle entities that are not part of the mapping table
+    if (this.onCustomEntityState?.(entity, parsedState)) return;
+
+    // Wi-Fi signal and uptime sensors of the firmware
+    const healthCapabilityId = findHealthCapability(entity);
+    if (healthCapabilityId) {
+      if (typeof parsedState?.state === 'number') {
+        this.onHealthState(healthCapabilityId, parsedState.state);
+      }
+      return;
+    }
+
+    // Entities exposed by the advanced entities mode
+    const advancedCapabilityId = getAdvancedCapabilityId(entity);
+    if (advancedCapabilityId && this.hasCapability(advancedCapabilityId)) {
+      if (entity.type !== 'Button' && typeof parsedState?.state !== 'undefined') {
+        this.setCapabilityValue(advancedCapabilityId, parsedState.state).catch((err) =>
+          this.debugEntity(`Failed to set ${advancedCapabilityId} capability value`, err)
+        );
+      }
+      return;
+    }
+
+    this.debugEntity(`state`, {
+      config: entity.config,
+      name: entity.name,
+      type: entity.type,
+      unit:
+        entity.config.unitOfMeasurement !== undefined ? entity.config.unitOfMeasurement || '' : '',
+      state: parsedState
+    });
+
+    const capabilityMapping = findCapabilityMapping(this.entityMapping, entity);
+    if (capabilityMapping) {
+      const { capabilityId, valueType } = capabilityMapping;
+      if (isValueOfType(parsedState?.state, valueType)) {
+        this.debugEntity(`Capability: ${capabilityId}: state event`, parsedState?.state);
+        if (capabilityId === ILLUMINANCE_CAPABILITY && typeof parsedState?.state === 'number') {
+          this.onIlluminanceState(parsedState.state);
+        } else {
+          this.setCapabilityValue(capabilityId, parsedState?.state).catch((err) =>
+            this.debugEntity(`Failed to set ${capabilityId} capability value`, err)
+          );
+        }
+        if (capabilityId === OCCUPANCY_CAPABILITY && typeof parsedState?.state === 'boolean') {
+          this.onOccupancyState(parsedState.state).catch((err) =>
+            this.error('Failed to update occupancy history', err)
+          );
+        }
+      }
+    } else {
+      this.debugEntity('Unknown device class:', entity.config.deviceClass);
+    }
+
+    // Read and update settings
+    const settingMapping = findSettingMapping(this.entityMapping, entity.config.objectId);
+    if (settingMapping) {
+      if (isValueOfType(parsedState?.state, settingMapping.valueType)) {
+        this.debugEntity(`Setting: ${entity.config.objectId}: state event`, parsedState?.state);
+        this.setSettings({
+          [entity.config.objectId]: parsedState?.state
+        }).catch((err) =>
+          this.debugEntity(
+            `Failed to set setting ${entity.config.objectId} to value: ${parsedState?.state}, reason:`,
+            err
+          )
+        );
+      }
+    } else {
+      this.debugEntity('Unknown setting:', entity.config.objectId);
+    }
+  }
+
+  /**
+   * Apply the illuminance smoothing settings.
+   *
+   * @param settings
+   */
+  configureIlluminance(settings: { [key: string]: unknown }) {
+    this.illuminanceFilter.configure({
+      window: Number(settings.illuminance_smoothing) || 1,
+      minDelta: Number(settings.illuminance_min_delta) || 0,
+      minInterval: Number(settings.illuminance_min_interval) || 0
+    });
+  }
+
+  /**
+   * Smooth the illuminance before updating the capability, and update the room dark capability.
+   *
+   * @param illuminance
+   */
+  onIlluminanceState(illuminance: number) {
+    const { value, publish } = this.illuminanceFilter.add(illuminance, Date.now());
+    if (publish) {
+      this.setCapabilityValue(ILLUMINANCE_CAPABILITY, value).catch((err) =>
+        this.debugEntity(`Failed to set ${ILLUMINANCE_CAPABILITY} capability value`, err)
+      );
+    }
+
+    // Use the smoothed value so the room dark state is not delayed by the rate limit
+    const previous = this.getCapabilityValue('room_dark');
+    const dark = isDark(typeof previous === 'boolean' ? previous : undefined, value, {
+      threshold: Number(this.getSetting('dark_threshold')) || 0,
+      hysteresis: Number(this.getSetting('dark_hysteresis')) || 0
+    });
+    if (dark === previous) return;
+    this.setCapabilityValue('room_dark', dark)
+      .then(async () => {
+        // The first value after pairing is not a change, so it does not trigger the Flow cards
+        if (typeof previous !== 'boolean') return;
+        await this.homey.flow
+          .getDeviceTriggerCard(this.getFlowCardId(dark ? 'room_dark_true' : 'room_dark_false'))
+          .trigger(this);
+      })
+      .catch((err) => this.error('Failed to update room dark', err));
+  }
+
+  /**
+   * Track occupancy sessions, triggers room_emptied with the duration of the session when the room
+   * becomes vacant.
+   *
+   * @param occupied
+   */
+  async onOccupancyState(occupied: boolean) {
+    if (this.occupancyHistory.isOccupied() === occupied) return;
+    const session = this.occupancyHistory.update(occupied, Date.now());
+    await this.setStoreValue(OCCUPANCY_HISTORY_STORE_KEY, this.occupancyHistory.toJSON());
+    this.updateOccupancyDurations();
+
+    if (session) {
+      const duration = toMinutes(session.end - session.start);
+      this.debugEntity(`room emptied after ${duration} minutes`);
+      await this.homey.flow
+        .getDeviceTriggerCard(this.getFlowCardId('room_emptied'))
+        .trigger(this, { duration });
+    }
+  }
+
+  /** Update the occupied for and vacant for capabilities. */
+  updateOccupancyDurations() {
+    const now = Date.now();
+    const values = {
+      occupied_for: this.occupancyHistory.getOccupiedFor(now),
+      vacant_for: this.occupancyHistory.getVacantFor(now)
+    };
+    for (const [capabilityId, value] of Object.entries(values)) {
+      if (this.getCapabilityValue(capabilityId) === value) continue;
+      this.setCapabilityValue(capabilityId, value).catch((err) =>
+        this.debugEntity(`Failed to set ${capabilityId} capability value`, err)
+      );
+    }
+  }
+
+  /**
+   * Check if the room has been vacant for more than a number of minutes.
+   *
+   * @param minutes
+   * @returns
+   */
+  isVacantForMoreThan(minutes: number): boolean {
+    if (this.occupancyHistory.isOccupied()) return false;
+    return this.occupancyHistory.getVacantFor(Date.now()) > minutes;
+  }
+
+  /**
+   * Add a Wi-Fi signal or uptime capability, replacing the generic capability the entity may have
+   * been exposed as by the advanced entities mode.
+   *
+   * @param capabilityId
+   * @param entity
+   */
+  async addHealthCapability(capabilityId: HealthCapability, entity: ParsedEntityData) {
+    await this.syncAdvancedEntity(entity, false);
+    if (!this.hasCapability(capabilityId)) {
+      await this.addCapability(capabilityId);
+      this.resetEntityState(entity.config.objectId);
+    }
+  }
+
+  /**
+   * Called when the firmware listed all entities. Firmware without an uptime sensor falls back to
+   * the time since the device info of the current connection was received, a reconnect resets this
+   * time so it does not trigger unexpected_reboot.
+   */
+  async onEntitiesListed() {
+    const hasUptimeSensor = [...this.entities.values()].some(
+      ({ data }) => findHealthCapability(data) === UPTIME_CAPABILITY
+    );
+    if (hasUptimeSensor === !this.isUptimeSensorMissing()) return;
+    await this.setStoreValue(UPTIME_SENSOR_MISSING_STORE_KEY, !hasUptimeSensor);
+    this.diagnostics.add(
+      'connection',
+      hasUptimeSensor ? 'uptime sensor found' : 'no uptime sensor, using connection uptime'
+    );
+
+    if (!this.hasCapability(UPTIME_CAPABILITY)) await this.addCapability(UPTIME_CAPABILITY);
+    await this.setCapabilityOptions(
+      UPTIME_CAPABILITY,
+      hasUptimeSensor ? {} : { title: { en: this.homey.__('capability.connection_uptime') } }
+    );
+    this.updateConnectionUptime();
+  }
+
+  /** Update the uptime capability with the connection uptime when the firmware has no uptime sensor. */
+  updateConnectionUptime() {
+    if (!this.isUptimeSensorMissing() || this.connectedSince === undefined) return;
+    if (this.connectionState !== ConnectionState.CONNECTED) return;
+    this.setCapabilityValue(
+      UPTIME_CAPABILITY,
+      toUptimeHours((Date.now() - this.connectedSince) / 1000)
+    ).catch((err) => this.debugEntity(`Failed to set ${UPTIME_CAPABILITY} capability value`, err));
+  }
+
+  /**
+   * Check if the firmware was found to have no uptime sensor.
+   *
+   * @returns
+   */
+  isUptimeSensorMissing(): boolean {
+    return this.getStoreValue(UPTIME_SENSOR_MISSING_STORE_KEY) === true;
+  }
+
+  /**
+   * Update the Wi-Fi signal or uptime capability, triggers unexpected_reboot when the uptime resets
+   * without a planned restart.
+   *
+   * @param capabilityId
+   * @param value Signal strength in dBm or uptime in seconds
+   */
+  onHealthState(capabilityId: HealthCapability, value: number) {
+    if (capabilityId === 'wifi_signal') {
+      this.setCapabilityValue(capabilityId, Math.round(value)).catch((err) =>
+        this.debugEntity(`Failed to set ${capabilityId} capability value`, err)
+      );
+      return;
+    }
+
+    // The raw uptime is stored to also detect reboots while the app was not running, the capability
+    // value is rounded and too inaccurate to compare against
+    const storedUptime = this.getStoreValue(UPTIME_STORE_KEY);
+    const previous = typeof storedUptime === 'number' ? storedUptime : undefined;
+    const { restartExpected } = this;
+    this.restartExpected = false;
+    this.setStoreValue(UPTIME_STORE_KEY, value).catch((err) =>
+      this.debugEntity('Failed to store uptime', err)
+    );
+    this.setCapabilityValue(capabilityId, toUptimeHours(value)).catch((err) =>
+      this.debugEntity(`Failed to set ${capabilityId} capability value`, err)
+    );
+
+    if (previous === undefined || !isUptimeReset(previous, value)) return;
+    if (restartExpected) {
+      this.debugClient('uptime reset after planned restart');
+      return;
+    }
+    this.log(`Unexpected reboot detected, uptime was ${previous}s`);
+    this.diagnostics.add('connection', `unexpected reboot detected, uptime was ${previous}s`);
+    this.homey.flow
+      .getDeviceTriggerCard(this.getFlowCardId('unexpected_reboot'))
+      .trigger(this, { previous_uptime: toUptimeHours(previous) })
+      .catch((err) => this.error('Failed to trigger unexpected_reboot', err));
+  }
+
+  /**
+   * Deliver the next state of an entity even if it did not change, for when the capability of the
+   * entity was just added or a setting its value depends on changed.
+   *
+   * @param objectId
+   */
+  protected resetEntityState(objectId: string) {
+    this.statePipeline.forget(objectId);
+  }
+
+  /**
+   * Add or remove the capabilities of all entities that are not known to the app.
+   *
+   * @param enabled Whether the advanced entities mode is enabled
+   */
+  async syncAdvancedEntities(enabled: boolean) {
+    for (const { data } of this.entities.values()) {
+      if (!this.isKnownEntity(data)) await this.syncAdvancedEntity(data, enabled);
+    }
+
+    // Remove capabilities of entities that are no longer reported by the firmware
+    if (!enabled) {
+      for (const capabilityId of this.getCapabilities().filter(isAdvancedCapabilityId)) {
+        await this.removeCapability(capabilityId);
+      }
+    }
+  }
+
+  /**
+   * Add or remove the generic sub-capability of an entity that is not known to the app.
+   *
+   * @param entity
+   * @param enabled Whether the advanced entities mode is enabled
+   */
+  async syncAdvancedEntity(entity: ParsedEntityData, enabled: boolean) {
+    const capabilityId = getAdvancedCapabilityId(entity);
+    if (!capabilityId) return;
+
+    if (!enabled) {
+      if (this.hasCapability(capabilityId)) await this.removeCapability(capabilityId);
+      return;
+    }
+
+    if (!this.hasCapability(capabilityId)) {
+      this.debugEntity(`Add advanced entity capability: ${capabilityId}`);
+      await this.addCapability(capabilityId);
+      await this.setCapabilityOptions(capabilityId, getAdvancedCapabilityOptions(entity));
+      this.resetEntityState(entity.config.objectId);
+    }
+
+    // Switches and buttons can be controlled
+    if (
+      (entity.type === 'Switch' || entity.type === 'Button') &&
+      !this.advancedCapabilityListeners.has(capabilityId)
+    ) {
+      this.advancedCapabilityListeners.add(capabilityId);
+      this.registerCapabilityListener(capabilityId, async (value: unknown) => {
+        if (entity.type === 'Button') this.pushEntityButton(entity.config.objectId);
+        else this.setEntityState(entity.config.objectId, value);
+      });
+    }
+  }
+
+  /**
+   * Check if an entity is mapped to a capability or setting, or handled by the device itself.
+   *
+   * @param entity
+   * @returns
+   */
+  isKnownEntity(entity: ParsedEntityData) {
+    return (
+      Boolean(findCapabilityMapping(this.entityMapping, entity)) ||
+      Boolean(findSettingMapping(this.entityMapping, entity.config.objectId)) ||
+      Boolean(findMaintenanceButton(entity)) ||
+      Boolean(findHealthCapability(entity)) ||
+      this.isCustomEntity?.(entity) === true
+    );
+  }
+
+  /**
+   * Check if an entity is handled by onCustomEntityState, devices that implement
+   * onCustomEntityState should implement this as well so these entities are not reported as
+   * unknown.
+   *
+   * @param entity
+   * @returns
+   */
+  protected isCustomEntity?(entity: ParsedEntityData): boolean;
+
+  /**
+   * Called when an entity has been registered, can be implemented by devices that need to act on
+   * the entities reported by the firmware (e.g. to add capabilities).
+   *
+   * @param entity
+   */
+  protected onEntityRegistered?(entity: ParsedEntityData): void;
+
+  /**
+   * Called before a state event is mapped using the entity mapping table, can be implemented by
+   * devices to handle entities that can not be expressed in the mapping table.
+   *
+   * @param entity
+   * @param state
+   * @returns True if the state event was handled and should not be mapped
+   */
+  protected onCustomEntityState?(entity: ParsedEntityData, state: EntityState): boolean;
+
+  /** OnAdded is called when the user adds the device, called just after pairing. */
+  async onAdded() {
+    this.log(`${this.constructor.name} has been added`);
+  }
+
+  /**
+   * OnSettings is called when the user updates the device's settings.
+   *
+   * @param {object} event The onSettings event data
+   * @param {object} event.oldSettings The old settings object
+   * @param {object} event.newSettings The new settings object
+   * @param {string[]} event.changedKeys An array of keys changed since the previous version
+   * @returns {Promise<string | void>} Return a custom message that will be displayed
+   */
+  async onSettings({
+    newSettings,
+    changedKeys
+  }: {
+    newSettings: { [key: string]: boolean | string | number | undefined | null };
+    changedKeys: string[];
+  }): Promise<string | void> {
+    this.log(`${this.constructor.name} settings were changed`);
+    let reconnect = false;
+    for (const changedKey of changedKeys) {
+      switch (changedKey) {
+        case ENCRYPTION_KEY_SETTING:
+          const encryptionKey = newSettings[changedKey] || '';
+          if (encryptionKey !== '' && !isValidEncryptionKey(encryptionKey)) {
+            throw new Error(this.homey.__('error.invalid_encryption_key'));
+          }
+          await this.setStoreValue('encryption_key', encryptionKey);
+          this.encryptionFailure = undefined;
+          reconnect = true;
+          break;
+        case STATIC_ADDRESS_SETTING:
+        case STATIC_PORT_SETTING:
+        case FIRMWARE_LOGS_SETTING:
+        case FIRMWARE_LOG_LEVEL_SETTING:
+          reconnect = true;
+          break;
+        case ADVANCED_ENTITIES_SETTING:
+          await this.syncAdvancedEntities(newSettings[changedKey] === true);
+          this.statePipeline.reset();
+          break;
+        case DIAGNOSTICS_REPORT_SETTING:
+          // The report is generated by the app, changes made by the user are ignored
+          break;
+        case 'state_update_window':
+          this.statePipeline.configure(Number(newSettings[changedKey]) || 0);
+          break;
+        case 'illuminance_smoothing':
+        case 'illuminance_min_delta':
+        case 'illuminance_min_interval':
+        case 'dark_threshold':
+        case 'dark_hysteresis':
+          this.configureIlluminance(newSettings);
+          break;
+        default:
+          if (findSettingMapping(this.entityMapping, changedKey)) {
+            this.setEntityState(changedKey, newSettings[changedKey]);
+          } else {
+            this.log('Unknown changed setting key:', changedKey);
+          }
+      }
+    }
+
+    // Reconnect using the new encryption key, address or log subscription
+    if (reconnect) {
+      this.disconnect()
+        .then(() => this.connect())
+        .catch((err) => {
+          this.error('Failed to re-connect after settings change', err);
+        });
+    }
+  }
+
+  /**
+   * Change a setting from a Flow action card, the value is written to the entity on the device and
+   * reflected in the settings.
+   *
+   * @param settingId
+   * @param value
+   */
+  async setSettingFromFlow(settingId: string, value: number | boolean) {
+    const settingMapping = findSettingMapping(this.entityMapping, settingId);
+    if (!settingMapping || !isValueOfType(value, settingMapping.valueType)) {
+      throw new Error(`Unsupported setting ${settingId}`);
+    }
+    if (!this.entities.has(settingId)) {
+      throw new Error(this.homey.__('error.setting_not_available'));
+    }
+
+    this.debugEntity(`Setting: ${settingId}: set from flow`, value);
+    this.setEntityState(settingId, value);
+    await this.setSettings({ [settingId]: value });
+  }
+
+  /**
+   * Turn a LED of the device on or off.
+   *
+   * @param led
+   * @param on
+   */
+  async setLed(led: Led, on: boolean) {
+    const settingId = this.ledSettings[led];
+    if (!settingId) throw new Error(`Unsupported LED ${led}`);
+    await this.setSettingFromFlow(settingId, on);
+  }
+
+  /**
+   * Check if a LED of the device is on.
+   *
+   * @param led
+   * @returns
+   */
+  isLedOn(led: Led): boolean {
+    const settingId = this.ledSettings[led];
+    if (!settingId) throw new Error(`Unsupported LED ${led}`);
+    return this.getSetting(settingId) === true;
+  }
+
+  /**
+   * Called when a maintenance action is started from the device settings, destructive actions have
+   * to be confirmed by starting them again within the confirmation period.
+   *
+   * @param action
+   */
+  async onMaintenanceButton(action: MaintenanceAction) {
+    const button = MAINTENANCE_BUTTONS.find(
+      (maintenanceButton) => maintenanceButton.action === action
+    );
+    if (button?.destructive) {
+      const { pendingConfirmation } = this;
+      if (
+        !pendingConfirmation ||
+        pendingConfirmation.action !== action ||
+        pendingConfirmation.until < Date.now()
+      ) {
+        this.pendingConfirmation = { action, until: Date.now() + CONFIRMATION_PERIOD };
+        throw new Error(this.homey.__('error.maintenance_confirm'));
+      }
+      this.pendingConfirmation = undefined;
+    }
+    await this.runMaintenanceAction(action);
+  }
+
+  /**
+   * Run a maintenance action by pushing its button entity, the disconnect that follows is tracked
+   * as a planned restart instead of a connection error.
+   *
+   * @param action
+   */
+  async runMaintenanceAction(action: MaintenanceAction) {
+    const entity = [...this.entities.values()].find(
+      ({ data }) => findMaintenanceButton(data)?.action === action
+    );
+    if (!entity || this.connectionState !== ConnectionState.CONNECTED) {
+      throw new Error(this.homey.__('error.maintenance_not_available'));
+    }
+
+    this.log(`Run maintenance action: ${action}`);
+    this.diagnostics.add('connection', `maintenance action: ${action}`);
+    this.plannedRestartUntil = Date.now() + PLANNED_RESTART_PERIOD;
+    this.pushEntityButton(entity.data.config.objectId);
+  }
+
+  /**
+   * Create a diagnostics report of the recent events of the device and show it in the device
+   * settings, so it can be copied and attached to a bug report.
+   */
+  async createDiagnosticsReport() {
+    const settings = this.getSettings();
+    const report = this.diagnostics.getReport({
+      app: this.homey.manifest.version,
+      driver: this.driver.id,
+      project_version: settings.project_version,
+      esp_home_version: settings.esp_home_version,
+      connection_state: this.connectionState,
+      last_connected: settings.last_connected,
+      reconnect_count: settings.reconnect_count,
+      last_error: settings.last_error,
+      created: new Date().toISOString(),
+      entities: this.entities.size,
+      capabilities: Object.fromEntries(
+        this.getCapabilities().map((capabilityId) => [
+          capabilityId,
+          this.getCapabilityValue(capabilityId)
+        ])
+      )
+    });
+    await this.setSettings({ [DIAGNOSTICS_REPORT_SETTING]: report });
+  }
+
+  /**
+   * Check if the device is expected to restart because of a maintenance action.
+   *
+   * @returns
+   */
+  isRestartPlanned(): boolean {
+    return this.plannedRestartUntil > Date.now();
+  }
+
+  /**
+   * Push a button entity on the device.
+   *
+   * @param objectId
+   */
+  pushEntityButton(objectId: string) {
+    const entity = this.entities.get(objectId);
+    if (!entity) throw new Error(`Missing entity ${objectId}`);
+    // Validate entity.original.push
+    if (
+      typeof entity.original !== 'object' ||
+      entity.original === null ||
+      !('push' in entity.original) ||
+      typeof entity.original.push !== 'function'
+    ) {
+      throw new Error('Expected entity.push to be a function');
+    }
+    entity.original.push();
+  }
+
+  /**
+   * Write a value to an entity on the device.
+   *
+   * @param objectId
+   * @param value
+   */
+  setEntityState(objectId: string, value: unknown) {
+    const entity = this.entities.get(objectId);
+    if (!entity) throw new Error(`Missing entity ${objectId}`);
+    if (!entity.original) throw new Error(`Missing original entity ${objectId}`);
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      // Validate entity.original.setState
+      if (
+        typeof entity.original !== 'object' ||
+        entity.original === null ||
+        !('setState' in entity.original) ||
+        typeof entity.original.setState !== 'function'
+      ) {
+        throw new Error('Expected entity.setState to be a function');
+      }
+      entity.original.setState(value);
+    }
+  }
+
+  /**
+   * OnRenamed is called when the user updates the device's name. This method can be used this to
+   * synchronize the name to the device.
+   *
+   * @param {string} name The new name
+   */
+  async onRenamed(name: string) {
+    this.log(`${this.constructor.name} was renamed to:`, name);
+  }
+
+  /** OnUninit is called when the device is destroyed, e.g. when the app is stopped. */
+  async onUninit() {
+    this.homey.clearInterval(this.occupancyInterval);
+    this.homey.clearInterval(this.healthInterval);
+    this.statePipeline.destroy();
+    await this.disconnect();
+  }
+
+  /** OnDeleted is called when the user deleted the device. */
+  async onDeleted() {
+    this.log(`${this.constructor.name} has been deleted`);
+    this.homey.clearInterval(this.occupancyInterval);
+    this.homey.clearInterval(this.healthInterval);
+    this.statePipeline.destroy();
+    this.disconnect().catch(() => undefined);
+  }
+
+  /**
+   * Return a truthy value here if the discovery result matches your device.
+   *
+   * @param discoveryResult
+   * @returns
+   */
+  onDiscoveryResult(discoveryResult: DiscoveryResult) {
+    this.debugDiscovery(`result match: ${discoveryResult.id === this.getData().id}`);
+    return discoveryResult.id === this.getData().id;
+  }
+
+  /**
+   * This method will be executed once when the device has been found (onDiscoveryResult returned
+   * true).
+   *
+   * @param discoveryResult
+   */
+  async onDiscoveryAvailable(discoveryResult: DiscoveryResult) {
+    this.debugDiscovery('available', discoveryResult);
+    const settings = this.getSettings();
+    if (typeof discoveryResult.address === 'string' && settings.ip !== discoveryResult.address) {
+      settings.ip = discoveryResult.address;
+    }
+    if (
+      typeof discoveryResult.txt?.version === 'string' &&
+      settings.esp_home_version !== discoveryResult.txt.version
+    ) {
+      settings.esp_home_version = discoveryResult.txt.version;
+    }
+    if (
+      typeof discoveryResult.txt?.project_version === 'string' &&
+      settings.project_version !== discoveryResult.txt.project_version
+    ) {
+      settings.project_version = discoveryResult.txt.project_version;
+    }
+
+    // Update settings if needed
+    if (Object.keys(settings).length > 0) {
+      await this.setSettings(settings).catch((err) => {
+        this.error('Failed to update IP in settings', err);
+      });
+    }
+    this.checkFirmwareCompatibility();
+    this.updateFirmwareStatus();
+
+    await this.updateDiscoveredAddress(discoveryResult);
+  }
+
+  /**
+   * This method will be executed when the ip address of the device changed, e.g. after a DHCP lease
+   * change.
+   *
+   * @param discoveryResult
+   */
+  async onDiscoveryAddressChanged(discoveryResult: DiscoveryResult) {
+    this.debugDiscovery('address changed', discoveryResult);
+    if (typeof discoveryResult.address === 'string') {
+      this.setSettings({ ip: discoveryResult.address }).catch((err) => {
+        this.error('Failed to update IP in settings', err);
+      });
+    }
+    await this.updateDiscoveredAddress(discoveryResult);
+  }
+
+  /**
+   * This method will be executed when the device announced itself again on the network. If the
+   * device is waiting to reconnect, reconnect immediately since it is apparently online.
+   *
+   * @param discoveryResult
+   */
+  async onDiscoveryLastSeenChanged(discoveryResult: DiscoveryResult) {
+    this.debugDiscovery('last seen changed', discoveryResult);
+    await this.updateDiscoveredAddress(discoveryResult);
+    if (this.connectionState === ConnectionState.BACKING_OFF) {
+      this.connect().catch((err) => this.debugClient('Could not re-connect', err));
+    }
+  }
+
+  /**
+   * Store the ip address and port found by discovery, and reconnect if the address changed while a
+   * static address is not configured.
+   *
+   * @param discoveryResult
+   */
+  async updateDiscoveredAddress(discoveryResult: DiscoveryResult) {
+    if (typeof discoveryResult.address !== 'string') return;
+    const port = typeof discoveryResult.port === 'number' ? discoveryResult.port : undefined;
+    const previousAddress = this.getStoreValue('address');
+    if (
+      previousAddress === discoveryResult.address &&
+      (!port || this.getStoreValue('port') === port)
+    ) {
+      return;
+    }
+
+    this.debugDiscovery('address updated to:', discoveryResult.address);
+    await this.setStoreValue('address', discoveryResult.address);
+    if (port) await this.setStoreValue('port', port);
+    this.useHostnameFallback = false;
+
+    const staticAddress = this.getSetting(STATIC_ADDRESS_SETTING);
+    if (typeof staticAddress === 'string' && staticAddress.trim() !== '') return;
+    if (this.connectionState === ConnectionState.DISCONNECTED) return;
+
+    // A first discovered address is only used right away when waiting to reconnect
+    if (!previousAddress && this.connectionState !== ConnectionState.BACKING_OFF) return;
+    await this.disconnect();
+    await this.connect().catch((err) => this.debugClient('Could not re-connect', err));
+  }
+}
@@ -0,0 +1,78 @@
+/** Categories of diagnostic events, each category has its own ring buffer. */
+export type DiagnosticsCategory = 'connection' | 'entity' | 'state' | 'log';
+
+/** Maximum number of events kept per category. */
+const MAX_EVENTS: { [category in DiagnosticsCategory]: number } = {
+  connection: 50,
+  entity: 100,
+  state: 100,
+  log: 100
+};
+
+const SECTION_TITLES: { [category in DiagnosticsCategory]: string } = {
+  connection: 'Connection events',
+  entity: 'Entity registrations',
+  state: 'State events',
+  log: 'Firmware logs'
+};
+
+interface DiagnosticsEvent {
+  time: number;
+  message: string;
+}
+
+/**
+ * Records the most recent connection events, entity registrations, state events and firmware logs
+ * of a device in ring buffers, so users can attach a diagnostics report to bug reports without
+ * debug logging.
+ */
+export class DiagnosticsLog {
+  private events: { [category in DiagnosticsCategory]: DiagnosticsEvent[] } = {
+    connection: [],
+    entity: [],
+    state: [],
+    log: []
+  };
+
+  /**
+   * Record an event, the oldest event of the category is dropped when its buffer is full.
+   *
+   * @param category
+   * @param message
+   * @param now
+   */
+  add(category: DiagnosticsCategory, message: string, now: number = Date.now()) {
+    const events = this.events[category];
+    events.push({ time: now, message });
+    if (events.length > MAX_EVENTS[category]) events.shift();
+  }
+
+  /**
+   * Create a plain text report of the recorded events.
+   *
+   * @param info Key value pairs describing the device, shown at the top of the report
+   * @returns
+   */
+  getReport(info: { [key: string]: unknown }): string {
+    const lines = Object.entries(info).map(([key, value]) => `${key}: ${formatValue(value)}`);
+    for (const category of Object.keys(this.events) as DiagnosticsCategory[]) {
+      lines.push('', `${SECTION_TITLES[category]}:`);
+      if (this.events[category].length === 0) lines.push('-');
+      for (const { time, message } of this.events[category]) {
+        lines.push(`${new Date(time).toISOString()} ${message}`);
+      }
+    }
+    return lines.join('\n');
+  }
+}
+
+/**
+ * Format a value for the report, objects are serialised as JSON.
+ *
+ * @param value
+ * @returns
+ */
+function formatValue(value: unknown): string {
+  if (typeof value === 'object' && value !== null) return JSON.stringify(value);
+  return String(value);
+}
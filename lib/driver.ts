@@ -0,0 +1,445 @@
+import { z } from 'zod';
+
+// @ts-expect-error Client is not typed
+import { Client } from '@2colors/esphome-native-api';
+
+import Homey from 'homey';
+
+import {
+  compareVersions,
+  formatMacString,
+  getEncryptionErrorMessage,
+  getErrorMessage,
+  isValidEncryptionKey
+} from './util';
+import { PairingPreview } from './preview';
+import { deviceInfoSchema } from './entities';
+import { EverythingSmartDevice, Led } from './device';
+import { MaintenanceAction } from './maintenance';
+import { ValidatedFirmware } from './firmware';
+
+const CONNECT_TIMEOUT = 15000;
+
+const discoveryResultSchema = z.object({
+  txt: z.object({
+    mac: z.string(),
+    version: z.string(),
+    project_version: z.string()
+  }),
+  host: z.string(),
+  address: z.string(),
+  port: z.number(),
+  name: z.string()
+});
+
+const manualPairingSchema = z.object({
+  host: z.string().trim().min(1),
+  port: z.coerce.number().int().min(1).max(65535),
+  encryptionKey: z.string().trim().optional()
+});
+
+interface SettingDevice extends Homey.Device {
+  setSettingFromFlow(settingId: string, value: number | boolean): Promise<void>;
+}
+
+interface PairDevice {
+  name: string;
+  data: { id: string };
+  store: { [key: string]: unknown };
+  settings: { [key: string]: unknown };
+}
+
+/**
+ * Remove case and separators from a project name, e.g. Everything_Presence_One becomes
+ * everythingpresenceone.
+ *
+ * @param projectName
+ * @returns
+ */
+function normalizeProjectName(projectName: string) {
+  return projectName.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Connect to a device and fetch its device info, the connection is closed afterwards.
+ *
+ * @param options
+ * @param options.host
+ * @param options.port
+ * @param options.encryptionKey
+ * @returns
+ */
+function fetchDeviceInfo({
+  host,
+  port,
+  encryptionKey
+}: {
+  host: string;
+  port: number;
+  encryptionKey: string;
+}): Promise<unknown> {
+  const client = new Client({
+    host,
+    port,
+    clearSession: true,
+    initializeDeviceInfo: true,
+    initializeListEntities: false,
+    initializeSubscribeStates: false,
+    initializeSubscribeLogs: false,
+    initializeSubscribeBLEAdvertisements: false,
+    clientInfo: 'homey',
+    encryptionKey,
+    password: '', // Deprecated
+    reconnect: false
+  });
+
+  return new Promise<unknown>((resolve, reject) => {
+    const connectTimeout = setTimeout(() => reject(new Error('Connect timeout')), CONNECT_TIMEOUT);
+    client.on('error', (error: unknown) => {
+      clearTimeout(connectTimeout);
+      reject(error);
+    });
+    client.on('initialized', () => {
+      clearTimeout(connectTimeout);
+      resolve(client.deviceInfo);
+    });
+    client.connect();
+  }).finally(() => {
+    // Try to disconnect client, note: this might fail in some cases so catch it
+    try {
+      client.disconnect();
+    } catch (err) {
+      // Ignore, the client is discarded anyway
+    }
+    client.removeAllListeners();
+  });
+}
+
+/**
+ * Base class for all Everything Smart drivers, handles pairing of the devices found using the
+ * discovery strategy of the driver.
+ */
+export abstract class EverythingSmartDriver extends Homey.Driver {
+  /** Name of the product, used as device name when pairing, e.g. Everything Presence One. */
+  protected abstract readonly productName: string;
+  /**
+   * Part of the ESPHome project name of the firmware, used to verify manually added devices. Case
+   * and separators are ignored, e.g. Everything Presence One matches
+   * Everything_Smart_Technology.Everything_Presence_One.
+   */
+  protected abstract readonly projectName: string;
+  /** Oldest firmware (project) version supported by the driver, older firmware shows a warning. */
+  protected abstract readonly minimumProjectVersion: string;
+  /**
+   * Prefix of the ids of the Flow cards shared by all drivers, these cards are defined as templates
+   * in .homeycompose/drivers/flow and extended in driver.flow.compose.json as <prefix>_<card id>.
+   */
+  abstract readonly flowCardPrefix: string;
+  /**
+   * Firmware manifest of the product, the versions the entity mapping has been validated against.
+   * The max project version is the latest release, shared by all devices of the driver.
+   */
+  abstract readonly validatedFirmware: ValidatedFirmware;
+  /** LEDs of the device that can be controlled by Flow cards. */
+  protected readonly leds: Led[] = [];
+  /** Action cards that write their value argument to a setting, mapped as card id to setting id. */
+  protected readonly settingActionCards: { [cardId: string]: string } = {};
+
+  /** OnInit is called when the driver is initialized. */
+  async onInit() {
+    this.log(`${this.constructor.name} has been initialized`);
+
+    // Register the action cards that change a setting of the device
+    for (const [cardId, settingId] of Object.entries(this.settingActionCards)) {
+      this.homey.flow
+        .getActionCard(cardId)
+        .registerRunListener(async (args: { device: SettingDevice; value: number | boolean }) =>
+          args.device.setSettingFromFlow(settingId, args.value)
+        );
+    }
+
+    for (const led of this.leds) this.registerLedFlowCards(led);
+    this.homey.flow
+      .getConditionCard(this.getFlowCardId('vacant_for_more_than'))
+      .registerRunListener(async (args: { device: EverythingSmartDevice; minutes: number }) =>
+        args.device.isVacantForMoreThan(args.minutes)
+      );
+    this.homey.flow
+      .getConditionCard(this.getFlowCardId('room_dark'))
+      .registerRunListener(
+        async (args: { device: EverythingSmartDevice }) =>
+          args.device.getCapabilityValue('room_dark') === true
+      );
+    this.homey.flow
+      .getActionCard(this.getFlowCardId('restart_device'))
+      .registerRunListener(
+        async (args: {
+          device: EverythingSmartDevice;
+          mode: Extract<MaintenanceAction, 'restart' | 'safe_mode'>;
+        }) => args.device.runMaintenanceAction(args.mode)
+      );
+    this.homey.flow
+      .getActionCard(this.getFlowCardId('factory_reset_device'))
+      .registerRunListener(async (args: { device: EverythingSmartDevice; confirm: boolean }) => {
+        if (!args.confirm) throw new Error(this.homey.__('error.factory_reset_not_confirmed'));
+        await args.device.runMaintenanceAction('factory_reset');
+      });
+  }
+
+  /**
+   * Get the id of a Flow card shared by all drivers, e.g. room_dark becomes epo_room_dark.
+   *
+   * @param cardId
+   * @returns
+   */
+  getFlowCardId(cardId: string) {
+    return `${this.flowCardPrefix}_${cardId}`;
+  }
+
+  /**
+   * Register the Flow cards of a LED.
+   *
+   * @param led
+   */
+  registerLedFlowCards(led: Led) {
+    this.homey.flow
+      .getActionCard(this.getFlowCardId(`set_${led}_led`))
+      .registerRunListener(async (args: { device: EverythingSmartDevice; state: 'on' | 'off' }) =>
+        args.device.setLed(led, args.state === 'on')
+      );
+    this.homey.flow
+      .getConditionCard(this.getFlowCardId(`${led}_led_on`))
+      .registerRunListener(async (args: { device: EverythingSmartDevice }) =>
+        args.device.isLedOn(led)
+      );
+  }
+
+  /**
+   * OnPair is called when a user starts pairing. The encryption key entered in the 'encryption_key'
+   * view is added to the devices listed in the 'list_devices' view. Devices that can not be
+   * discovered can be added by address in the 'manual_pairing' view. The selected device is shown
+   * in the 'preview' view before it is added.
+   *
+   * @param session
+   */
+  async onPair(session: Homey.Driver.PairSession) {
+    let encryptionKey = '';
+    let selectedDevice: PairDevice | undefined;
+    let preview: PairingPreview | undefined;
+
+    session.setHandler('encryption_key', async (value: unknown) => {
+      if (typeof value !== 'string' || value === '') {
+        encryptionKey = '';
+        return;
+      }
+      if (!isValidEncryptionKey(value)) {
+        throw new Error(this.homey.__('error.invalid_encryption_key'));
+      }
+      encryptionKey = value;
+    });
+
+    session.setHandler('list_devices', async () => {
+      const devices = await this.onPairListDevices();
+      return devices.map((device) => ({
+        ...device,
+        store: { ...device?.store, encryption_key: encryptionKey },
+        settings: { ...device?.settings, encryption_key: encryptionKey }
+      }));
+    });
+
+    session.setHandler('list_devices_selection', async (devices: PairDevice[]) => {
+      selectedDevice = devices[0];
+    });
+
+    session.setHandler('manual_pairing', async (value: unknown) => {
+      selectedDevice = await this.onPairManual(value);
+    });
+
+    session.setHandler('preview', async () => {
+      if (!selectedDevice) throw new Error(this.homey.__('error.pair_no_device_selected'));
+      preview?.stop();
+      preview = new PairingPreview(
+        {
+          host: String(selectedDevice.settings.static_address || selectedDevice.store.address),
+          port: Number(selectedDevice.settings.static_port || selectedDevice.store.port),
+          encryptionKey: String(selectedDevice.store.encryption_key || '')
+        },
+        (state) => {
+          session.emit('preview_state', state).catch(() => undefined);
+        }
+      );
+      return this.onPairPreview(selectedDevice, preview);
+    });
+
+    // Close the preview connection when leaving the view or closing the pairing session
+    session.setHandler('showView', async (viewId: string) => {
+      if (viewId !== 'preview') preview?.stop();
+    });
+    session.setHandler('disconnect', async () => {
+      preview?.stop();
+    });
+  }
+
+  /**
+   * OnPairPreview is called when the 'preview' view is shown. It connects to the selected device
+   * and returns its firmware details, including warnings about encryption and outdated firmware.
+   *
+   * @param device
+   * @param preview
+   * @returns
+   */
+  async onPairPreview(device: PairDevice, preview: PairingPreview) {
+    let deviceInfo: unknown;
+    try {
+      deviceInfo = await preview.start();
+    } catch (err) {
+      preview.stop();
+      this.error('Failed to connect to device for preview:', getErrorMessage(err));
+      const encryptionErrorMessage = getEncryptionErrorMessage(err);
+      throw new Error(this.homey.__(encryptionErrorMessage || 'error.pair_connect'));
+    }
+
+    const deviceInfoResult = deviceInfoSchema.safeParse(deviceInfo);
+    const projectVersion = deviceInfoResult.success
+      ? deviceInfoResult.data.projectVersion
+      : String(device.settings.project_version);
+    const esphomeVersion = deviceInfoResult.success
+      ? deviceInfoResult.data.esphomeVersion
+      : String(device.settings.esp_home_version);
+    return {
+      device,
+      projectVersion,
+      esphomeVersion,
+      encrypted: Boolean(device.store.encryption_key),
+      outdated: compareVersions(projectVersion, this.minimumProjectVersion) < 0,
+      minimumProjectVersion: this.minimumProjectVersion
+    };
+  }
+
+  /**
+   * OnPairManual is called when a user adds a device by address in the 'manual_pairing' view. It
+   * connects to the device to verify it is supported and returns the device to add, using the same
+   * data as a discovered device.
+   *
+   * @param value
+   * @returns
+   */
+  async onPairManual(value: unknown): Promise<PairDevice> {
+    const parseResult = manualPairingSchema.safeParse(value);
+    if (!parseResult.success) {
+      throw new Error(this.homey.__('error.manual_pairing_invalid_address'));
+    }
+    const { host, port } = parseResult.data;
+    const encryptionKey = parseResult.data.encryptionKey || '';
+    if (encryptionKey !== '' && !isValidEncryptionKey(encryptionKey)) {
+      throw new Error(this.homey.__('error.invalid_encryption_key'));
+    }
+
+    let deviceInfo: unknown;
+    try {
+      deviceInfo = await fetchDeviceInfo({ host, port, encryptionKey });
+    } catch (err) {
+      this.error('Failed to connect to manually added device:', getErrorMessage(err));
+      const encryptionErrorMessage = getEncryptionErrorMessage(err);
+      throw new Error(this.homey.__(encryptionErrorMessage || 'error.pair_connect'));
+    }
+
+    // Parse the device info with zod
+    const deviceInfoResult = deviceInfoSchema.safeParse(deviceInfo);
+    if (!deviceInfoResult.success) {
+      this.error('Got invalid device info, error:', deviceInfoResult.error);
+      throw new Error(this.homey.__('error.manual_pairing_unsupported_device'));
+    }
+    if (
+      !normalizeProjectName(deviceInfoResult.data.projectName).includes(
+        normalizeProjectName(this.projectName)
+      )
+    ) {
+      this.error('Unsupported project name:', deviceInfoResult.data.projectName);
+      throw new Error(this.homey.__('error.manual_pairing_unsupported_device'));
+    }
+
+    const mac = deviceInfoResult.data.macAddress.replace(/:/g, '').toLowerCase();
+    return {
+      name: `${this.productName} (${formatMacString(mac)})`,
+      data: {
+        id: mac
+      },
+      store: {
+        host: deviceInfoResult.data.name,
+        port,
+        encryption_key: encryptionKey
+      },
+      settings: {
+        mac: formatMacString(mac),
+        ip: '',
+        host: deviceInfoResult.data.name,
+        port: String(port),
+        esp_home_version: deviceInfoResult.data.esphomeVersion,
+        project_version: deviceInfoResult.data.projectVersion,
+        encryption_key: encryptionKey,
+        static_address: host,
+        static_port: port
+      }
+    };
+  }
+
+  /**
+   * OnPairListDevices is called when a user is adding a device and the 'list_devices' view is
+   * called. This should return an array with the data of devices that are available for pairing.
+   */
+  async onPairListDevices() {
+    const discoveryStrategy = this.getDiscoveryStrategy();
+    const discoveryResults = discoveryStrategy.getDiscoveryResults();
+    const devices = Object.values(discoveryResults).map((discoveryResult: unknown) => {
+      // Parse the discovery result with zod
+      const parseResult = discoveryResultSchema.safeParse(discoveryResult);
+      if (!parseResult.success) {
+        this.error('Got invalid discovery result, error:', parseResult.error);
+        return null;
+      }
+
+      return {
+        name: `${this.productName} (${formatMacString(parseResult.data.txt.mac)})`,
+        data: {
+          id: parseResult.data.txt.mac
+        },
+        store: {
+          host: parseResult.data.host,
+          address: parseResult.data.address,
+          port: parseResult.data.port
+        },
+        settings: {
+          mac: formatMacString(parseResult.data.txt.mac),
+          ip: parseResult.data.address,
+          host: parseResult.data.host,
+          port: String(parseResult.data.port),
+          esp_home_version: parseResult.data.txt.version,
+          project_version: parseResult.data.txt.project_version
+        }
+      };
+    });
+
+    // Filter out null entries (TS doesn't understand this)
+    return devices.filter((device) => Boolean(device));
+  }
+}
+
+// Example discovery result:
+// id: 'd4d4da708528',
+// lastSeen: '2023-05-05T19:54:59.414Z',
+// address: '192.168.178.148',
+// host: 'everything-presence-one-708528',
+// port: 6053,
+// name: 'everything-presence-one-708528',
+// fullname: 'everything-presence-one-708528._esphomelib._tcp.local.',
+// txt: {
+//   version: '2023.4.2',
+//   mac: 'd4d4da708528',
+//   platform: 'ESP32',
+//   board: 'esp32dev',
+//   network: 'wifi',
+//   project_name: 'Everything_Smart_Technology.Everything_Presence_One',
+//   project_version: '1.1.3',
+//   package_import_url: 'github://everythingsmarthome/presence-one/everything-presence-one.yaml@main'
+// },
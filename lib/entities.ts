@@ -0,0 +1,67 @@
+import { z } from 'zod';
+
+export const entityStateSchema = z.object({
+  key: z.number(),
+  state: z.union([z.number(), z.boolean()]),
+  missingState: z.boolean().optional()
+});
+
+export type EntityState = z.infer<typeof entityStateSchema>;
+
+// Example entity state
+// {
+//   config: {
+//     objectId: '_illuminance',
+//     key: 920262939,
+//     name: ' Illuminance',
+//     uniqueId: 'everything-presence-one-7083ccsensor_illuminance',
+//     icon: '',
+//     unitOfMeasurement: 'lx',
+//     accuracyDecimals: 1,
+//     forceUpdate: false,
+//     deviceClass: 'illuminance',
+//     stateClass: 1,
+//     lastResetType: 0,
+//     disabledByDefault: false,
+//     entityCategory: 0
+//   },
+//   name: ' Illuminance',
+//   type: 'Sensor',
+//   unit: 'lx',
+//   state: { key: 920262939, state: 140.69387817382812, missingState: false }
+// }
+
+export const entitySchema = z.object({
+  config: z.object({
+    objectId: z.string(),
+    key: z.number(),
+    name: z.string(),
+    uniqueId: z.string(),
+    icon: z.string(),
+    unitOfMeasurement: z.string().optional(),
+    accuracyDecimals: z.number().optional(),
+    forceUpdate: z.boolean().optional(),
+    deviceClass: z.string().optional(),
+    stateClass: z.number().optional(),
+    lastResetType: z.number().optional(),
+    disabledByDefault: z.boolean(),
+    entityCategory: z.number()
+  }),
+  id: z.number(),
+  name: z.string(),
+  type: z.string(),
+  unit: z.string().optional()
+});
+
+export type ParsedEntityData = z.infer<typeof entitySchema>;
+
+/** Device info as reported by the firmware when connecting. */
+export const deviceInfoSchema = z.object({
+  name: z.string(),
+  macAddress: z.string(),
+  esphomeVersion: z.string(),
+  projectName: z.string(),
+  projectVersion: z.string()
+});
+
+export type DeviceInfo = z.infer<typeof deviceInfoSchema>;
@@ -0,0 +1,134 @@
+import { ParsedEntityData } from './entities';
+import { compareVersions } from './util';
+
+/** Version range, min and max are inclusive and before is exclusive, all are optional. */
+export interface VersionRange {
+  min?: string;
+  max?: string;
+  before?: string;
+}
+
+/** Firmware versions as reported by discovery and stored in the device settings. */
+export interface FirmwareVersion {
+  projectVersion?: string;
+  esphomeVersion?: string;
+}
+
+/** Firmware versions a device has been validated against. */
+export interface ValidatedFirmware {
+  /** The max project version is the latest release, older firmware is marked as outdated. */
+  projectVersion: VersionRange & { max: string };
+  esphomeVersion: VersionRange;
+}
+
+/**
+ * A compatibility rule normalises the entities of firmware within the version ranges to the
+ * identifiers of the latest firmware, so the mapping tables only have to know about one format.
+ */
+interface CompatibilityRule {
+  projectVersion?: VersionRange;
+  esphomeVersion?: VersionRange;
+  /** Also apply the rule when a version is not known yet, only for rules that are idempotent. */
+  applyToUnknownVersion?: boolean;
+  normalizeUniqueId: (uniqueId: string) => string;
+}
+
+/** Matches the platform part of a uniqueId (e.g. binary_sensor_ in ...708528binary_sensor_mmwave). */
+const UNIQUE_ID_PLATFORM_REGEX = /(binary_sensor|text_sensor|sensor|switch|number|button|select)_/;
+
+const COMPATIBILITY_RULES: CompatibilityRule[] = [
+  {
+    // ESPHome 2023.7.1 removed the underscore between the platform and the object id in the
+    // uniqueId, e.g. binary_sensor_mmwave became binary_sensormmwave. GitHub issue:
+    // https://github.com/EverythingSmartHome/everything-presence-one/issues/99
+    esphomeVersion: { before: '2023.7.1' },
+    // New format uniqueIds have no underscore after the platform and are left unchanged
+    applyToUnknownVersion: true,
+    normalizeUniqueId: (uniqueId) => uniqueId.replace(UNIQUE_ID_PLATFORM_REGEX, '$1')
+  }
+];
+
+/**
+ * Check if a version is within a version range, returns false if the version is unknown.
+ *
+ * @param version
+ * @param range
+ * @returns
+ */
+export function isVersionInRange(version: string | undefined, range: VersionRange) {
+  if (!version) return false;
+  if (range.min && compareVersions(version, range.min) < 0) return false;
+  if (range.max && compareVersions(version, range.max) > 0) return false;
+  if (range.before && compareVersions(version, range.before) >= 0) return false;
+  return true;
+}
+
+/**
+ * Check if a rule applies to the firmware, all provided version ranges must match. An unknown
+ * version only matches if the rule applies to unknown versions.
+ *
+ * @param rule
+ * @param firmware
+ * @returns
+ */
+function ruleAppliesTo(rule: CompatibilityRule, firmware: FirmwareVersion) {
+  const matches = (version: string | undefined, range: VersionRange | undefined) => {
+    if (!range) return true;
+    if (!version) return rule.applyToUnknownVersion === true;
+    return isVersionInRange(version, range);
+  };
+  return (
+    matches(firmware.projectVersion, rule.projectVersion) &&
+    matches(firmware.esphomeVersion, rule.esphomeVersion)
+  );
+}
+
+/**
+ * Normalise the identifiers of an entity to the format of the latest firmware.
+ *
+ * @param entity
+ * @param firmware
+ * @returns
+ */
+export function normalizeEntity(
+  entity: ParsedEntityData,
+  firmware: FirmwareVersion
+): ParsedEntityData {
+  const uniqueId = COMPATIBILITY_RULES.filter((rule) => ruleAppliesTo(rule, firmware)).reduce(
+    (result, rule) => rule.normalizeUniqueId(result),
+    entity.config.uniqueId
+  );
+  if (uniqueId === entity.config.uniqueId) return entity;
+  return { ...entity, config: { ...entity.config, uniqueId } };
+}
+
+/**
+ * Check if the project version of the firmware is older than the latest release, returns false if
+ * either version is unknown.
+ *
+ * @param firmware
+ * @param latestProjectVersion
+ * @returns
+ */
+export function isFirmwareOutdated(firmware: FirmwareVersion, latestProjectVersion?: string) {
+  if (!firmware.projectVersion || !latestProjectVersion) return false;
+  return compareVersions(firmware.projectVersion, latestProjectVersion) < 0;
+}
+
+/**
+ * Check if the firmware is within the versions the device has been validated against, unknown
+ * versions are considered not validated.
+ *
+ * @param firmware
+ * @param validatedFirmware
+ * @returns
+ */
+export function isFirmwareValidated(
+  firmware: FirmwareVersion,
+  validatedFirmware: ValidatedFirmware
+) {
+  return (
+    isVersionInRange(firmware.projectVersion, validatedFirmware.projectVersion) &&
+    isVersionInRange(firmware.esphomeVersion, validatedFirmware.esphomeVersion)
+  );
+}
@@ -0,0 +1,151 @@
+export type FusionMode = 'firmware' | 'pir_start_mmwave_hold' | 'both' | 'either';
+
+export const FUSION_MODES: FusionMode[] = ['firmware', 'pir_start_mmwave_hold', 'both', 'either'];
+
+/** Timer functions, pass this.homey so timers are cleared when the app is destroyed. */
+interface Timers {
+  setTimeout(callback: () => void, ms: number): NodeJS.Timeout;
+  clearTimeout(timeout?: NodeJS.Timeout): void;
+}
+
+/**
+ * Combines the PIR, mmWave and firmware occupancy sensors into a single room occupancy state. The
+ * room stays occupied for the hold time after the sensors no longer detect presence. The room
+ * occupancy is only updated once the sensors used by the fusion mode have reported their state.
+ */
+export class OccupancyFusion {
+  private mode: FusionMode = 'firmware';
+  private holdTime = 0;
+  private pir?: boolean;
+  private mmwave?: boolean;
+  private firmware?: boolean;
+  private holdTimeout?: NodeJS.Timeout;
+
+  /**
+   * @param timers
+   * @param onChange Called when the room occupancy changed
+   * @param occupied Room occupancy to start from, e.g. the stored capability value
+   */
+  constructor(
+    private timers: Timers,
+    private onChange: (occupied: boolean) => void,
+    private occupied = false
+  ) {}
+
+  /**
+   * Update the fusion mode and hold time.
+   *
+   * @param mode
+   * @param holdTime Hold time in seconds
+   */
+  configure(mode: FusionMode, holdTime: number) {
+    this.mode = mode;
+    this.holdTime = holdTime;
+    this.update();
+  }
+
+  /**
+   * Check if the room is occupied.
+   *
+   * @returns
+   */
+  isOccupied(): boolean {
+    return this.occupied;
+  }
+
+  /**
+   * Update the state of the PIR sensor.
+   *
+   * @param value
+   */
+  setPir(value: boolean) {
+    this.pir = value;
+    this.update();
+  }
+
+  /**
+   * Update the state of the mmWave sensor.
+   *
+   * @param value
+   */
+  setMmwave(value: boolean) {
+    this.mmwave = value;
+    this.update();
+  }
+
+  /**
+   * Update the state of the occupancy sensor combined by the firmware.
+   *
+   * @param value
+   */
+  setFirmware(value: boolean) {
+    this.firmware = value;
+    this.update();
+  }
+
+  /** Stop the hold timer. */
+  destroy() {
+    this.timers.clearTimeout(this.holdTimeout);
+  }
+
+  /**
+   * Check if the sensors used by the fusion mode have reported their state.
+   *
+   * @returns
+   */
+  private hasSensorStates(): boolean {
+    if (this.mode === 'firmware') return this.firmware !== undefined;
+    return this.pir !== undefined && this.mmwave !== undefined;
+  }
+
+  /**
+   * Check if the sensors detect presence according to the fusion mode.
+   *
+   * @returns
+   */
+  private detectsPresence(): boolean {
+    switch (this.mode) {
+      case 'pir_start_mmwave_hold':
+        // The mmWave sensor can only keep the room occupied, not make it occupied
+        return this.pir === true || (this.occupied && this.mmwave === true);
+      case 'both':
+        return this.pir === true && this.mmwave === true;
+      case 'either':
+        return this.pir === true || this.mmwave === true;
+      default:
+        return this.firmware === true;
+    }
+  }
+
+  /** Update the room occupancy, starting the hold timer if presence is no longer detected. */
+  private update() {
+    if (!this.hasSensorStates()) return;
+    if (this.detectsPresence()) {
+      this.timers.clearTimeout(this.holdTimeout);
+      this.holdTimeout = undefined;
+      this.setOccupied(true);
+      return;
+    }
+
+    if (!this.occupied || this.holdTimeout) return;
+    if (this.holdTime <= 0) {
+      this.setOccupied(false);
+      return;
+    }
+    this.holdTimeout = this.timers.setTimeout(() => {
+      this.holdTimeout = undefined;
+      this.setOccupied(false);
+    }, this.holdTime * 1000);
+  }
+
+  /**
+   * Update the room occupancy, calls onChange if it changed.
+   *
+   * @param occupied
+   */
+  private setOccupied(occupied: boolean) {
+    if (this.occupied === occupied) return;
+    this.occupied = occupied;
+    this.onChange(occupied);
+  }
+}
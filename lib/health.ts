@@ -0,0 +1,49 @@
+import { ParsedEntityData } from './entities';
+
+export type HealthCapability = 'wifi_signal' | 'uptime';
+
+/** Uptime drops smaller than this are ignored, e.g. rounding differences between updates. */
+const UPTIME_RESET_TOLERANCE = 60;
+
+/**
+ * Get the health capability of a diagnostic sensor of the firmware (Wi-Fi signal or uptime),
+ * returns undefined if the entity is not a health sensor.
+ *
+ * @param entity
+ * @returns
+ */
+export function findHealthCapability(entity: ParsedEntityData): HealthCapability | undefined {
+  if (entity.type !== 'Sensor') return undefined;
+  if (
+    entity.config.deviceClass === 'signal_strength' ||
+    entity.config.unitOfMeasurement === 'dBm'
+  ) {
+    return 'wifi_signal';
+  }
+  if (/uptime/.test(entity.config.objectId) && entity.config.unitOfMeasurement === 's') {
+    return 'uptime';
+  }
+  return undefined;
+}
+
+/**
+ * Convert an uptime in seconds to the hours shown by the uptime capability.
+ *
+ * @param seconds
+ * @returns
+ */
+export function toUptimeHours(seconds: number) {
+  return Math.round((seconds / 3600) * 10) / 10;
+}
+
+/**
+ * Check if the uptime of the device was reset, meaning the device rebooted.
+ *
+ * @param previous Previous uptime in seconds, undefined if unknown
+ * @param current
+ * @returns
+ */
+export function isUptimeReset(previous: number | undefined, current: number) {
+  if (previous === undefined) return false;
+  return current < previous - UPTIME_RESET_TOLERANCE;
+}
@@ -0,0 +1,119 @@
+import { z } from 'zod';
+
+/** Maximum number of sessions kept in the store. */
+const MAX_SESSIONS = 100;
+
+const occupancySessionSchema = z.object({
+  start: z.number(),
+  end: z.number()
+});
+
+export const occupancyHistorySchema = z.object({
+  sessions: z.array(occupancySessionSchema),
+  currentStart: z.number().optional(),
+  lastEnd: z.number().optional()
+});
+
+export type OccupancySession = z.infer<typeof occupancySessionSchema>;
+export type OccupancyHistoryData = z.infer<typeof occupancyHistorySchema>;
+
+/**
+ * Convert a duration in milliseconds to whole minutes.
+ *
+ * @param duration
+ * @returns
+ */
+export function toMinutes(duration: number) {
+  return Math.floor(duration / 60000);
+}
+
+/**
+ * Keeps track of occupancy sessions (from the moment a room becomes occupied until it becomes
+ * vacant), the data can be stored in the device store to survive restarts.
+ */
+export class OccupancyHistory {
+  private data: OccupancyHistoryData = { sessions: [] };
+
+  /**
+   * Create the history from previously stored data, invalid data is ignored.
+   *
+   * @param data
+   */
+  constructor(data?: unknown) {
+    const parseResult = occupancyHistorySchema.safeParse(data);
+    if (parseResult.success) this.data = parseResult.data;
+  }
+
+  /**
+   * Update the occupancy.
+   *
+   * @param occupied
+   * @param now
+   * @returns The session that ended if the room became vacant, or undefined
+   */
+  update(occupied: boolean, now: number): OccupancySession | undefined {
+    if (occupied) {
+      if (this.data.currentStart === undefined) this.data.currentStart = now;
+      return undefined;
+    }
+
+    if (this.data.currentStart === undefined) return undefined;
+    const session = { start: this.data.currentStart, end: now };
+    this.data.sessions = [...this.data.sessions, session].slice(-MAX_SESSIONS);
+    this.data.currentStart = undefined;
+    this.data.lastEnd = now;
+    return session;
+  }
+
+  /**
+   * Start counting the vacant time if the room has never been occupied, so a room that stays empty
+   * after pairing or a restart is reported as vacant.
+   *
+   * @param now
+   */
+  startVacancy(now: number) {
+    if (this.data.currentStart === undefined && this.data.lastEnd === undefined) {
+      this.data.lastEnd = now;
+    }
+  }
+
+  /**
+   * Check if the room is occupied.
+   *
+   * @returns
+   */
+  isOccupied(): boolean {
+    return this.data.currentStart !== undefined;
+  }
+
+  /**
+   * Get the number of minutes the room has been occupied, 0 if it is vacant.
+   *
+   * @param now
+   * @returns
+   */
+  getOccupiedFor(now: number): number {
+    if (this.data.currentStart === undefined) return 0;
+    return toMinutes(now - this.data.currentStart);
+  }
+
+  /**
+   * Get the number of minutes the room has been vacant, 0 if it is occupied or was never occupied.
+   *
+   * @param now
+   * @returns
+   */
+  getVacantFor(now: number): number {
+    if (this.data.currentStart !== undefined || this.data.lastEnd === undefined) return 0;
+    return toMinutes(now - this.data.lastEnd);
+  }
+
+  /**
+   * Get the data to store.
+   *
+   * @returns
+   */
+  toJSON(): OccupancyHistoryData {
+    return this.data;
+  }
+}
@@ -0,0 +1,78 @@
+export interface IlluminanceFilterOptions {
+  /** Number of readings in the moving average, 1 disables smoothing. */
+  window: number;
+  /** Minimum change in lx before a new value is published. */
+  minDelta: number;
+  /** Minimum time in seconds between published values. */
+  minInterval: number;
+}
+
+export interface DarkDetectorOptions {
+  /** The room becomes dark below this illuminance in lx. */
+  threshold: number;
+  /** The room only becomes light again above threshold + hysteresis. */
+  hysteresis: number;
+}
+
+/**
+ * Smooths illuminance readings with a moving average and limits how often a new value is published,
+ * to reduce Flow noise and insights data.
+ */
+export class IlluminanceFilter {
+  private options: IlluminanceFilterOptions = { window: 1, minDelta: 0, minInterval: 0 };
+  private readings: number[] = [];
+  private published?: { value: number; time: number };
+
+  /**
+   * Update the filter options.
+   *
+   * @param options
+   */
+  configure(options: IlluminanceFilterOptions) {
+    this.options = { ...options, window: Math.max(1, Math.round(options.window)) };
+    this.readings = this.readings.slice(-this.options.window);
+  }
+
+  /**
+   * Add a reading.
+   *
+   * @param value
+   * @param now
+   * @returns The smoothed value and whether it should be published
+   */
+  add(value: number, now: number): { value: number; publish: boolean } {
+    this.readings = [...this.readings, value].slice(-this.options.window);
+    const average = this.readings.reduce((sum, reading) => sum + reading, 0) / this.readings.length;
+    const smoothed = Math.round(average * 10) / 10;
+
+    if (this.published) {
+      if (Math.abs(smoothed - this.published.value) < this.options.minDelta) {
+        return { value: smoothed, publish: false };
+      }
+      if (now - this.published.time < this.options.minInterval * 1000) {
+        return { value: smoothed, publish: false };
+      }
+    }
+    this.published = { value: smoothed, time: now };
+    return { value: smoothed, publish: true };
+  }
+}
+
+/**
+ * Determines if a room is dark, using hysteresis to prevent toggling when the illuminance hovers
+ * around the threshold.
+ *
+ * @param dark Whether the room is currently considered dark, undefined if unknown
+ * @param illuminance
+ * @param options
+ * @returns
+ */
+export function isDark(
+  dark: boolean | undefined,
+  illuminance: number,
+  options: DarkDetectorOptions
+): boolean {
+  if (illuminance < options.threshold) return true;
+  if (illuminance > options.threshold + options.hysteresis) return false;
+  return dark ?? false;
+}
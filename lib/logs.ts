@@ -0,0 +1,107 @@
+import { z } from 'zod';
+
+/** Setting that enables the subscription to the logs of the firmware. */
+export const FIRMWARE_LOGS_SETTING = 'firmware_logs';
+export const FIRMWARE_LOG_LEVEL_SETTING = 'firmware_log_level';
+
+/** ESPHome log levels, see LogLevel in the ESPHome native API. */
+const LOG_LEVELS: { [level: string]: number } = {
+  error: 1,
+  warning: 2,
+  info: 3,
+  config: 4,
+  debug: 5,
+  verbose: 6,
+  very_verbose: 7
+};
+
+/** Log levels that trigger the firmware_log_warning Flow card. */
+const WARNING_LOG_LEVEL = LOG_LEVELS.warning;
+
+// Matches ANSI color codes (ESC followed by e.g. [0;33m), ESPHome colors its log lines by level
+const ANSI_ESCAPE_REGEX = new RegExp(`${String.fromCharCode(27)}\\[[0-9;]*m`, 'g');
+
+export const logEntrySchema = z.object({
+  level: z.number(),
+  message: z.string()
+});
+
+export type LogEntry = z.infer<typeof logEntrySchema>;
+
+/**
+ * Get the ESPHome log level of a log level setting, defaults to warning.
+ *
+ * @param level
+ * @returns
+ */
+export function getLogLevel(level: unknown): number {
+  return (typeof level === 'string' && LOG_LEVELS[level]) || WARNING_LOG_LEVEL;
+}
+
+/**
+ * Get the name of an ESPHome log level, e.g. warning.
+ *
+ * @param level
+ * @returns
+ */
+export function getLogLevelName(level: number): string {
+  return Object.keys(LOG_LEVELS).find((name) => LOG_LEVELS[name] === level) || String(level);
+}
+
+/**
+ * Check if a log entry is a warning or error.
+ *
+ * @param entry
+ * @returns
+ */
+export function isWarningLogEntry(entry: LogEntry): boolean {
+  return entry.level > 0 && entry.level <= WARNING_LOG_LEVEL;
+}
+
+/**
+ * Remove the color codes from a log message.
+ *
+ * @param message
+ * @returns
+ */
+export function formatLogMessage(message: string): string {
+  return message.replace(ANSI_ESCAPE_REGEX, '').trim();
+}
+
+/** Repeats of the same warning within this time do not trigger firmware_log_warning again. */
+const WARNING_REPEAT_WINDOW = 5 * 60 * 1000;
+
+/** Maximum number of firmware_log_warning triggers per rate window. */
+const WARNING_RATE_LIMIT = 5;
+const WARNING_RATE_WINDOW = 60 * 1000;
+
+/**
+ * Limits the firmware_log_warning triggers of a device, so a firmware that logs warnings at a high
+ * rate does not flood the Flows of the user. Repeats of the same message are skipped within the
+ * repeat window and the number of triggers is limited per rate window.
+ */
+export class LogWarningThrottle {
+  private lastTriggered: Map<string, number> = new Map();
+  private triggerTimes: number[] = [];
+
+  /**
+   * Check if a warning should trigger the Flow card, records the trigger if it should.
+   *
+   * @param message
+   * @param now
+   * @returns
+   */
+  shouldTrigger(message: string, now: number = Date.now()): boolean {
+    this.lastTriggered.forEach((time, key) => {
+      if (now - time >= WARNING_REPEAT_WINDOW) this.lastTriggered.delete(key);
+    });
+    this.triggerTimes = this.triggerTimes.filter((time) => now - time < WARNING_RATE_WINDOW);
+    if (this.lastTriggered.has(message) || this.triggerTimes.length >= WARNING_RATE_LIMIT) {
+      return false;
+    }
+
+    this.lastTriggered.set(message, now);
+    this.triggerTimes.push(now);
+    return true;
+  }
+}
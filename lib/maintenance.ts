@@ -0,0 +1,48 @@
+import { ParsedEntityData } from './entities';
+
+export type MaintenanceAction = 'restart' | 'safe_mode' | 'factory_reset';
+
+/** Time the device gets to restart before a lost connection is treated as an error. */
+export const PLANNED_RESTART_PERIOD = 2 * 60 * 1000;
+
+/** Time in which a destructive maintenance action has to be confirmed by pressing it again. */
+export const CONFIRMATION_PERIOD = 30 * 1000;
+
+/** Maps the maintenance actions to the button entities of the firmware and the button capabilities. */
+export const MAINTENANCE_BUTTONS: {
+  action: MaintenanceAction;
+  capabilityId: string;
+  objectId: RegExp;
+  destructive: boolean;
+}[] = [
+  {
+    action: 'restart',
+    capabilityId: 'button.restart',
+    objectId: /(^|_)restart$/,
+    destructive: false
+  },
+  {
+    action: 'safe_mode',
+    capabilityId: 'button.safe_mode',
+    objectId: /(^|_)safe_mode/,
+    destructive: false
+  },
+  {
+    action: 'factory_reset',
+    capabilityId: 'button.factory_reset',
+    objectId: /(^|_)factory_reset/,
+    destructive: true
+  }
+];
+
+/**
+ * Find the maintenance button that matches an entity, returns undefined if the entity is not a
+ * maintenance button.
+ *
+ * @param entity
+ * @returns
+ */
+export function findMaintenanceButton(entity: ParsedEntityData) {
+  if (entity.type !== 'Button') return undefined;
+  return MAINTENANCE_BUTTONS.find(({ objectId }) => objectId.test(entity.config.objectId));
+}
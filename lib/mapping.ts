@@ -0,0 +1,109 @@
+import { ParsedEntityData } from './entities';
+
+export type EntityValueType = 'number' | 'boolean';
+
+/**
+ * Describes which ESPHome entities a mapping applies to, all provided properties must match. The
+ * objectId can be a RegExp to match a range of entities (e.g. zone_1_begin_x through zone_4_end_y),
+ * uniqueIdIncludes matches if the uniqueId includes any of the provided strings.
+ */
+export interface EntityMatcher {
+  type?: string;
+  deviceClass?: string;
+  objectId?: string | RegExp;
+  uniqueIdIncludes?: string[];
+}
+
+/** Maps the state of an ESPHome entity to a Homey capability. */
+export interface CapabilityMapping {
+  capabilityId: string;
+  valueType: EntityValueType;
+  match: EntityMatcher;
+}
+
+/**
+ * Maps the state of an ESPHome entity to a Homey setting, the setting id is equal to the objectId
+ * of the entity. Changes to the setting are written back to the entity.
+ */
+export interface SettingMapping {
+  objectId: string | RegExp;
+  valueType: EntityValueType;
+}
+
+export interface EntityMappingTable {
+  capabilities: CapabilityMapping[];
+  settings: SettingMapping[];
+}
+
+/**
+ * Check if a string matches a string or RegExp pattern.
+ *
+ * @param value
+ * @param pattern
+ * @returns
+ */
+function matchesPattern(value: string, pattern: string | RegExp) {
+  if (typeof pattern === 'string') return value === pattern;
+  return pattern.test(value);
+}
+
+/**
+ * Check if an entity matches all properties of the matcher.
+ *
+ * @param matcher
+ * @param entity
+ * @returns
+ */
+export function matchesEntity(matcher: EntityMatcher, entity: ParsedEntityData) {
+  if (typeof matcher.type === 'string' && matcher.type !== entity.type) return false;
+  if (
+    typeof matcher.deviceClass === 'string' &&
+    matcher.deviceClass !== entity.config.deviceClass
+  ) {
+    return false;
+  }
+  if (matcher.objectId && !matchesPattern(entity.config.objectId, matcher.objectId)) return false;
+  if (
+    matcher.uniqueIdIncludes &&
+    !matcher.uniqueIdIncludes.some((value) => entity.config.uniqueId.includes(value))
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Find the first capability mapping that matches the entity.
+ *
+ * @param table
+ * @param entity
+ * @returns
+ */
+export function findCapabilityMapping(table: EntityMappingTable, entity: ParsedEntityData) {
+  return table.capabilities.find((mapping) => matchesEntity(mapping.match, entity));
+}
+
+/**
+ * Find the setting mapping for an objectId, which is also the id of the setting.
+ *
+ * @param table
+ * @param objectId
+ * @returns
+ */
+export function findSettingMapping(table: EntityMappingTable, objectId: string) {
+  return table.settings.find((mapping) => matchesPattern(objectId, mapping.objectId));
+}
+
+/**
+ * Check if a value has the type expected by a mapping.
+ *
+ * @param value
+ * @param valueType
+ * @returns
+ */
+export function isValueOfType(
+  value: unknown,
+  valueType: EntityValueType
+): value is number | boolean {
+  return typeof value === valueType;
+}
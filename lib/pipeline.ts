@@ -0,0 +1,109 @@
+import { EntityState } from './entities';
+
+/** Timer functions, pass this.homey so timers are cleared when the app is destroyed. */
+interface Timers {
+  setTimeout(callback: () => void, ms: number): NodeJS.Timeout;
+  clearTimeout(timeout?: NodeJS.Timeout): void;
+}
+
+/**
+ * Per entity update pipeline between the ESPHome client and the device. Unchanged values are
+ * dropped, bursts of updates are coalesced into the latest value within the update window and
+ * priority updates (e.g. occupancy transitions) are handled immediately. Pending updates are
+ * delivered before a priority update, so it is handled with the latest values of the other entities
+ * (e.g. the coordinates of a target that became active).
+ */
+export class StatePipeline {
+  private window = 0;
+  private delivered: Map<string, EntityState['state']> = new Map();
+  private pending: Map<string, { state: EntityState; timeout: NodeJS.Timeout }> = new Map();
+
+  /**
+   * @param timers
+   * @param onState Called with the states that passed the pipeline
+   */
+  constructor(
+    private timers: Timers,
+    private onState: (objectId: string, state: EntityState) => void
+  ) {}
+
+  /**
+   * Update the window in which updates are coalesced.
+   *
+   * @param window Window in milliseconds, 0 disables coalescing
+   */
+  configure(window: number) {
+    this.window = Math.max(0, window);
+  }
+
+  /**
+   * Add a state event of an entity to the pipeline.
+   *
+   * @param objectId
+   * @param state
+   * @param priority Handle the state immediately instead of coalescing it
+   */
+  push(objectId: string, state: EntityState, priority: boolean) {
+    const pending = this.pending.get(objectId);
+    if (priority || this.window === 0) {
+      if (pending) this.timers.clearTimeout(pending.timeout);
+      this.pending.delete(objectId);
+      this.flush();
+      this.deliver(objectId, state);
+      return;
+    }
+
+    // Coalesce the burst, only the latest state is delivered when the window ends
+    if (pending) {
+      pending.state = state;
+      return;
+    }
+    if (this.delivered.get(objectId) === state?.state) return;
+    const timeout = this.timers.setTimeout(() => {
+      const coalesced = this.pending.get(objectId);
+      this.pending.delete(objectId);
+      if (coalesced) this.deliver(objectId, coalesced.state);
+    }, this.window);
+    this.pending.set(objectId, { state, timeout });
+  }
+
+  /** Forget the delivered values, so the next state of every entity is delivered. */
+  reset() {
+    this.delivered.clear();
+  }
+
+  /**
+   * Forget the delivered value of an entity, so its next state is delivered even if it did not
+   * change. Used when something the device derives from the state changed, e.g. a setting.
+   *
+   * @param objectId
+   */
+  forget(objectId: string) {
+    this.delivered.delete(objectId);
+  }
+
+  /** Deliver all pending states immediately. */
+  flush() {
+    const pending = [...this.pending.entries()];
+    this.destroy();
+    pending.forEach(([objectId, { state }]) => this.deliver(objectId, state));
+  }
+
+  /** Stop all pending timers. */
+  destroy() {
+    this.pending.forEach(({ timeout }) => this.timers.clearTimeout(timeout));
+    this.pending.clear();
+  }
+
+  /**
+   * Deliver a state if it changed since the previously delivered state.
+   *
+   * @param objectId
+   * @param state
+   */
+  private deliver(objectId: string, state: EntityState) {
+    if (this.delivered.has(objectId) && this.delivered.get(objectId) === state?.state) return;
+    this.delivered.set(objectId, state?.state);
+    this.onState(objectId, state);
+  }
+}
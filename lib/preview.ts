@@ -0,0 +1,124 @@
+// @ts-expect-error Client is not typed
+import { Client } from '@2colors/esphome-native-api';
+
+import { entitySchema, entityStateSchema } from './entities';
+import { EntityMatcher, matchesEntity } from './mapping';
+
+const CONNECT_TIMEOUT = 15000;
+
+/** Entities shown in the preview, these are the same for all Everything Presence devices. */
+const PREVIEW_ENTITIES: { property: keyof PreviewState; match: EntityMatcher }[] = [
+  {
+    property: 'occupancy',
+    match: {
+      deviceClass: 'occupancy',
+      uniqueIdIncludes: ['binary_sensor_occupancy', 'binary_sensoroccupancy']
+    }
+  },
+  { property: 'illuminance', match: { deviceClass: 'illuminance' } }
+];
+
+export interface PreviewState {
+  occupancy?: boolean;
+  illuminance?: number;
+}
+
+/**
+ * Connects to a device during pairing to fetch its device info and show live occupancy and
+ * illuminance readings before the device is added.
+ */
+export class PairingPreview {
+  private client: Client;
+  private state: PreviewState = {};
+
+  /**
+   * @param options
+   * @param options.host
+   * @param options.port
+   * @param options.encryptionKey
+   * @param onState Called with the latest readings every time one of them changes
+   */
+  constructor(
+    options: { host: string; port: number; encryptionKey: string },
+    private onState: (state: PreviewState) => void
+  ) {
+    this.client = new Client({
+      ...options,
+      clearSession: true,
+      initializeDeviceInfo: true,
+      initializeListEntities: true,
+      initializeSubscribeStates: true,
+      initializeSubscribeLogs: false,
+      initializeSubscribeBLEAdvertisements: false,
+      clientInfo: 'homey',
+      password: '', // Deprecated
+      reconnect: false
+    });
+  }
+
+  /**
+   * Connect to the device.
+   *
+   * @returns The device info of the device
+   */
+  start(): Promise<unknown> {
+    this.client.on('newEntity', (entity: unknown) => this.onEntity(entity));
+    return new Promise((resolve, reject) => {
+      const connectTimeout = setTimeout(
+        () => reject(new Error('Connect timeout')),
+        CONNECT_TIMEOUT
+      );
+      this.client.on('error', (error: unknown) => {
+        clearTimeout(connectTimeout);
+        reject(error);
+      });
+      this.client.on('initialized', () => {
+        clearTimeout(connectTimeout);
+        resolve(this.client.deviceInfo);
+      });
+      this.client.connect();
+    });
+  }
+
+  /** Disconnect from the device. */
+  stop() {
+    // Try to disconnect client, note: this might fail in some cases so catch it
+    try {
+      this.client.disconnect();
+    } catch (err) {
+      // Ignore, the client is discarded anyway
+    }
+    this.client.removeAllListeners();
+  }
+
+  /**
+   * Listen for state changes of the entities shown in the preview.
+   *
+   * @param entity
+   */
+  private onEntity(entity: unknown) {
+    const parseEntityResult = entitySchema.safeParse(entity);
+    if (!parseEntityResult.success) return;
+    const previewEntity = PREVIEW_ENTITIES.find(({ match }) =>
+      matchesEntity(match, parseEntityResult.data)
+    );
+    if (!previewEntity) return;
+
+    // Validate entity.on
+    if (
+      typeof entity !== 'object' ||
+      entity === null ||
+      !('on' in entity) ||
+      typeof entity.on !== 'function'
+    ) {
+      return;
+    }
+
+    entity.on('state', (state: unknown) => {
+      const parseStateResult = entityStateSchema.safeParse(state);
+      if (!parseStateResult.success || parseStateResult.data.missingState) return;
+      this.state = { ...this.state, [previewEntity.property]: parseStateResult.data.state };
+      this.onState(this.state);
+    });
+  }
+}
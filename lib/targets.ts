@@ -0,0 +1,93 @@
+const TARGET_OBJECT_ID_REGEX = /^target_(\d+)_(active|x|y|speed|distance)$/;
+
+export type TargetProperty = 'active' | 'x' | 'y' | 'speed' | 'distance';
+
+export interface Target {
+  id: number;
+  active: boolean;
+  x: number;
+  y: number;
+  speed: number;
+  distance: number;
+}
+
+/**
+ * Parse a target entity objectId (e.g. target_1_active or target_2_x) into the target number and
+ * the property it reports, returns undefined if the objectId is not a target entity.
+ *
+ * @param objectId
+ * @returns
+ */
+export function parseTargetObjectId(
+  objectId: string
+): { target: number; property: TargetProperty } | undefined {
+  const match = objectId.match(TARGET_OBJECT_ID_REGEX);
+  if (!match) return undefined;
+  return { target: Number(match[1]), property: match[2] as TargetProperty };
+}
+
+/**
+ * Keeps track of the live position, speed and distance of the targets reported by the LD2450 radar
+ * of the Everything Presence Lite.
+ */
+export class TargetTracker {
+  private targets: Map<number, Target> = new Map();
+
+  /**
+   * Get a target, creates the target if it is not yet tracked.
+   *
+   * @param id
+   * @returns
+   */
+  getTarget(id: number): Target {
+    let target = this.targets.get(id);
+    if (!target) {
+      target = { id, active: false, x: 0, y: 0, speed: 0, distance: 0 };
+      this.targets.set(id, target);
+    }
+    return target;
+  }
+
+  /**
+   * Get all active targets.
+   *
+   * @returns
+   */
+  getActiveTargets(): Target[] {
+    return [...this.targets.values()].filter((target) => target.active);
+  }
+
+  /**
+   * Get the number of active targets, i.e. the number of people present.
+   *
+   * @returns
+   */
+  getActiveCount(): number {
+    return this.getActiveTargets().length;
+  }
+
+  /**
+   * Update whether a target is active.
+   *
+   * @param id
+   * @param active
+   * @returns True if the active state of the target changed
+   */
+  setActive(id: number, active: boolean): boolean {
+    const target = this.getTarget(id);
+    if (target.active === active) return false;
+    target.active = active;
+    return true;
+  }
+
+  /**
+   * Update a numeric property (x, y, speed or distance) of a target.
+   *
+   * @param id
+   * @param property
+   * @param value
+   */
+  setValue(id: number, property: Exclude<TargetProperty, 'active'>, value: number) {
+    this.getTarget(id)[property] = value;
+  }
+}
@@ -12,3 +12,69 @@ export function formatMacString(macString: string): string {
   if (!hexStringGroups) throw new Error('Could not format MAC address');
   return hexStringGroups.join(':');
 }
+
+/**
+ * Check if the provided value is a valid ESPHome Noise encryption key (PSK), which is a base64
+ * encoded string of 32 bytes.
+ *
+ * @param encryptionKey
+ * @returns
+ */
+export function isValidEncryptionKey(encryptionKey: unknown): encryptionKey is string {
+  if (typeof encryptionKey !== 'string') return false;
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(encryptionKey)) return false;
+  return Buffer.from(encryptionKey, 'base64').length === 32;
+}
+
+/**
+ * Get typed error message from unknown parameter.
+ *
+ * @param error
+ * @returns
+ */
+export function getErrorMessage(error: unknown) {
+  if (error instanceof Error) return error.message;
+  return String(error);
+}
+
+/**
+ * Get the translation key of the error message that matches an encryption related client error,
+ * returns undefined if the error is not related to encryption.
+ *
+ * @param error
+ * @returns
+ */
+export function getEncryptionErrorMessage(error: unknown) {
+  const message = getErrorMessage(error);
+  // Device uses encryption but no encryption key was provided
+  if (message.includes('Bad format: Encryption expected')) {
+    return 'error.unavailable_encryption_key_required';
+  }
+  // Device rejected the encryption key during the Noise handshake
+  if (message.includes('Handshake failure')) {
+    return 'error.unavailable_encryption_key_invalid';
+  }
+  // Encryption key was provided but the device uses the plaintext transport
+  if (message.includes('Bad format. Expected 1 at the begin')) {
+    return 'error.unavailable_encryption_key_unexpected';
+  }
+  return undefined;
+}
+
+/**
+ * Compare two dot separated version strings, e.g. 1.1.3 and 1.2.0.
+ *
+ * @param a
+ * @param b
+ * @returns A negative number if a is older than b, a positive number if a is newer than b and 0 if
+ *   they are equal
+ */
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map((part) => parseInt(part, 10) || 0);
+  const partsB = b.split('.').map((part) => parseInt(part, 10) || 0);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const difference = (partsA[i] || 0) - (partsB[i] || 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
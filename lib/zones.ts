@@ -0,0 +1,110 @@
+export const ZONE_COORDINATE_OBJECT_ID_REGEX = /^zone_(\d+)_(begin|end)_(x|y)$/;
+
+/** Detection range of the LD2450 radar in mm, zones must be within this range. */
+export const ZONE_RANGE = {
+  x: { min: -4000, max: 4000 },
+  y: { min: 0, max: 6000 }
+};
+
+export type ZoneAxis = 'x' | 'y';
+
+export interface ZoneCoordinate {
+  zone: number;
+  edge: 'begin' | 'end';
+  axis: ZoneAxis;
+}
+
+export interface ZoneGeometry {
+  beginX: number;
+  endX: number;
+  beginY: number;
+  endY: number;
+}
+
+/**
+ * Parse a zone coordinate entity objectId (e.g. zone_1_begin_x) into the zone number, edge and
+ * axis, returns undefined if the objectId is not a zone coordinate entity.
+ *
+ * @param objectId
+ * @returns
+ */
+export function parseZoneCoordinateObjectId(objectId: string): ZoneCoordinate | undefined {
+  const match = objectId.match(ZONE_COORDINATE_OBJECT_ID_REGEX);
+  if (!match) return undefined;
+  return {
+    zone: Number(match[1]),
+    edge: match[2] as ZoneCoordinate['edge'],
+    axis: match[3] as ZoneAxis
+  };
+}
+
+/**
+ * Get the objectId (which is also the setting id) of a zone coordinate entity.
+ *
+ * @param coordinate
+ * @returns
+ */
+export function getZoneCoordinateObjectId({ zone, edge, axis }: ZoneCoordinate) {
+  return `zone_${zone}_${edge}_${axis}`;
+}
+
+/**
+ * Get the geometry of a zone from a settings object, returns undefined if one of the coordinates is
+ * missing.
+ *
+ * @param zone
+ * @param settings
+ * @returns
+ */
+export function getZoneGeometry(
+  zone: number,
+  settings: { [key: string]: unknown }
+): ZoneGeometry | undefined {
+  const geometry = {
+    beginX: settings[getZoneCoordinateObjectId({ zone, edge: 'begin', axis: 'x' })],
+    endX: settings[getZoneCoordinateObjectId({ zone, edge: 'end', axis: 'x' })],
+    beginY: settings[getZoneCoordinateObjectId({ zone, edge: 'begin', axis: 'y' })],
+    endY: settings[getZoneCoordinateObjectId({ zone, edge: 'end', axis: 'y' })]
+  };
+  if (Object.values(geometry).some((value) => typeof value !== 'number')) return undefined;
+  return geometry as ZoneGeometry;
+}
+
+/**
+ * Check if a zone is enabled, the firmware disables a zone by setting all of its coordinates to 0.
+ *
+ * @param geometry
+ * @returns
+ */
+export function isZoneEnabled(geometry: ZoneGeometry | undefined) {
+  if (!geometry) return false;
+  return Object.values(geometry).some((value) => value !== 0);
+}
+
+/**
+ * Validate the geometry of a zone, returns a list of validation errors which is empty when the zone
+ * is valid.
+ *
+ * @param geometry
+ * @returns
+ */
+export function validateZoneGeometry(geometry: ZoneGeometry) {
+  const errors: ('begin_end_x' | 'begin_end_y' | 'range_x' | 'range_y')[] = [];
+  if (geometry.beginX >= geometry.endX) errors.push('begin_end_x');
+  if (geometry.beginY >= geometry.endY) errors.push('begin_end_y');
+  if (
+    [geometry.beginX, geometry.endX].some(
+      (value) => value < ZONE_RANGE.x.min || value > ZONE_RANGE.x.max
+    )
+  ) {
+    errors.push('range_x');
+  }
+  if (
+    [geometry.beginY, geometry.endY].some(
+      (value) => value < ZONE_RANGE.y.min || value > ZONE_RANGE.y.max
+    )
+  ) {
+    errors.push('range_y');
+  }
+  return errors;
+}